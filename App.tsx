@@ -1,15 +1,25 @@
 import React, { useEffect } from 'react';
+import { Alert } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { useAppStore } from './src/store';
-import { StorageService } from './src/services/storage';
 
 export default function App() {
   const { loadData } = useAppStore();
 
   useEffect(() => {
-    loadData();
+    loadData().then(() => {
+      const { storageIssues } = useAppStore.getState();
+      if (storageIssues.length > 0) {
+        Alert.alert(
+          'Data Recovery',
+          `Some saved data could not be read and was set aside so nothing is lost:\n\n${storageIssues
+            .map((issue) => `• ${issue.source}: ${issue.message}`)
+            .join('\n')}`
+        );
+      }
+    });
   }, []);
 
   return (
@@ -0,0 +1,317 @@
+/**
+ * 内置的 CEFR 分级词表（原形，空格分隔），参考 Oxford 3000/5000 与常见词频表整理。
+ * 同一个词出现在多个级别时以最低级别为准
+ */
+export const CEFR_WORDS: Record<string, string> = {
+  A1: `
+a about above across action activity actor address adult advice afraid after afternoon again age ago agree air
+airport all also always amazing among and angry animal another answer any anyone anything apartment apple april
+area arm around arrive art article artist as ask at august aunt autumn away baby back bad bag ball banana band bank
+bath bathroom be beach beautiful because become bed bedroom beer before begin beginning behind believe below best
+better between bicycle big bike bill bird birthday black blog blonde blue boat body book boot bored boring born both
+bottle box boy boyfriend bread break breakfast bring brother brown build building bus business busy but butter buy
+by bye cafe cake call camera can cannot capital car card career carrot carry cat cd cent centre century chair change
+chart cheap check cheese chicken child chocolate choose cinema city class classroom clean climb clock close clothes
+club coat coffee cold college colour come common company compare complete computer concert conversation cook
+cooking cool correct cost could country course cousin cow cream create culture cup customer cut dad dance dancer
+dancing dangerous dark date daughter day dear december decide delicious describe description design desk detail
+dialogue dictionary die diet difference different difficult dinner dirty discuss dish do doctor dog dollar door down
+downstairs draw dress drink drive driver during each ear early east easy eat egg eight eighteen eighty elephant
+eleven else email end enjoy enough euro even evening event ever every everybody everyone everything exam example
+excited exciting exercise expensive explain extra eye face fact fall false family famous fantastic far farm farmer
+fast fat father favourite february feel feeling festival few fifteen fifth fifty file film final find fine finish
+fire first fish five flat flight floor flower fly follow food foot football for forget form forty four fourteen
+fourth free friday friend friendly from front fruit full fun funny future game garden geography get girl girlfriend
+give glass go good goodbye grandfather grandmother grandparent great green grey group grow guitar gym hair half hall
+hand happen happy hard hat hate have he head health healthy hear hello help her here hey hi high him his history
+hobby holiday home homework hope horse hospital hot hotel hour house how however hundred hungry husband i ice idea if
+imagine important improve in include information interest interested interesting internet interview into introduce
+island it its january jeans job join journey juice july june just keep key kilometre kind kitchen know land language
+large last late later laugh learn leave left leg lesson let letter library lie life like line lion list listen
+little live local long look lose lot love lunch machine magazine main make man many map march market married match
+may maybe me meal mean meaning meat meet meeting member menu message metre midnight mile milk million minute miss
+mistake model modern moment monday money month more morning most mother mountain mouse mouth move movie much mum
+museum music must my name natural near need negative neighbour never new news newspaper next nice night nine
+nineteen ninety no nobody nose not note nothing november now number nurse object october of off office often oh ok
+old on once one onion online only open opinion opposite or orange order other our out outside over own page paint
+painting pair paper paragraph parent park part partner party passport past pay pen pencil people pepper perfect
+period person personal phone photo photograph phrase piano picture piece pig pink place plan plane plant play player
+please point police policeman pool poor popular positive possible post potato pound practice practise prefer prepare
+present pretty price probably problem product programme project purple put quarter question quick quickly quiet
+quite radio rain read reader reading ready real really reason red relax remember repeat report restaurant result
+return rice rich ride right river road room rule run sad salad salt same sandwich saturday say school science
+scientist sea second section see sell send sentence september seven seventeen seventy share she sheep shirt shoe shop
+shopping short should show shower sick similar sing singer sister sit situation six sixteen sixty skill skirt sleep
+slow small snake snow so some somebody someone something sometimes son song soon sorry sound soup south space speak
+special spell spelling spend sport spring stand star start statement station stay still stop story street strong
+student study style subject success sugar summer sun sunday supermarket sure sweater swim swimming table take talk
+tall taxi tea teach teacher team teenager telephone television tell ten tennis terrible test text than thank thanks
+that the theatre their them then there they thing think third thirsty thirteen thirty this thousand three through
+thursday ticket time tired title to today together toilet tomato tomorrow tonight too tooth topic tourist town traffic
+train travel tree trip trousers true try tuesday turn twelve twenty twice two type umbrella uncle under understand
+university until up upstairs us use useful usually vacation vegetable very video village visit visitor wait waiter
+wake walk wall want warm wash watch water way we wear weather website wednesday week weekend welcome well west what
+when where which white who why wife will win window wine winter with without woman wonderful word work worker world
+would write writer writing wrong yeah year yellow yes yesterday you young your yourself
+`,
+  A2: `
+ability able abroad accept accident according achieve act active actually adult adventure advertise advertisement
+affect against ahead aim album alcohol alive almost alone along already alternative although among amount ancient
+ankle anybody anyway anywhere app appear appearance apply architect architecture argue argument army arrange art
+attack attention attract audience author available average avoid award awful background badly bake balcony bar
+baseball based basketball bean bear beat beef beginner behave behaviour belong belt benefit best bill biology bite
+block board bomb bone border borrow boss bottom bowl brain bridge bright brilliant broken brush burn businessman
+button camp camping can cancel care careful carefully carpet cartoon case cash castle catch cause celebrate
+celebrity certain certainly chance character charity chat chef chemistry chip choice church cigarette circle
+classical clear clearly clever climate close closed clothing cloud coach coast code colleague collect column comedy
+comfortable comment communicate community compete competition complain completely condition conference connect
+connected consider contain context continent continue control cook cooker copy corner correctly count couple cover
+crazy creative credit crime criminal cross crowd crowded cry cupboard curly cycle daily danger dark data dead deal
+death decision deep definitely degree dentist department depend desert designer destroy detective develop device
+diary differently digital direct direction director disagree disappear disaster discover discovery discussion
+disease distance divorced document double download downstairs drama drawing dream drop drug dry early earn earth
+easily education effect either electric electrical electricity electronic employ employee employer empty ending
+energy engine engineer enormous enter environment equipment error especially essay everyday everywhere evidence
+exact exactly excellent except exist expect experience experiment expert explanation express expression extreme
+extremely factor factory fail fair fan farming fashion fear feature feed fight figure fill finally finger finish fit
+fix flat flu fly focus fog foreign forest fork formal fortunately forward free fresh fridge frog fruit fuel furniture
+further gallery gap gas gate general gift goal god gold golf government grass greet ground guest guide gun guy habit
+hang happily headache heart heat heavy height helpful hero herself hide hill himself hit hockey hold hole honest
+horror host hotel hurry hurt identify ill illness image immediately impossible included including increase
+incredible independent individual industry informal injury insect inside instead instruction instructor instrument
+intelligent international introduction invent invention invitation invite involve item itself jam jazz jewellery
+joke journalist jump kick kid kill king knee knife knock knowledge lab lady lake lamp laptop last laugh law lawyer lazy
+lead leader learning least lecture lemon lend less level lifestyle lift light likely link liquid litre living lock
+lorry loud lovely low luck lucky mail major male manage manager manner mark marry material mathematics maths matter
+medical medicine memory mention metal method middle might mind mine mirror missing mobile monkey moon mostly motorcycle
+movement musical musician myself narrow national nature nearly necessary neck neither nervous net network noise noisy
+none normal normally notice novel nowhere occasion ocean offer officer oil onto opportunity option ordinary
+organization organize original ourselves outdoor oven own owner pack pain painter palace pants parking particular
+pass passenger patient pattern pay peace penny per percent perform perhaps permission personality pet petrol
+photographer physical physics pick pilot planet plastic plate platform pleased pocket polite pollution pop population
+position possession possibly poster power predict present president prevent print printer prison prize process
+produce professional professor profile program progress promise pronounce protect provide pub public publish pull
+purpose push quality quantity queen quiz race railway raise rate rather reach react realize receive recent recently
+reception recipe recognize recommend record recording recycle reduce region regular relationship remove repair
+replace reply research reservation respond rest review ride ring rise rock role roof round route rubbish rude run
+sadly safe sail sailing salary sale sauce save scared scary scene schedule score screen search season seat seed secretary
+seem sense separate series serious serve service several shake shall shape sheet ship shoulder shout shut side sign
+silver simple since singing single sir site size ski skiing skin sky sleep slowly smartphone smell smile smoke
+smoking snack soap soccer social society sock soft soldier solution solve somewhere sort source speaker specific
+speech speed spider spoon square stage stair stamp state steal step stomach stone store storm straight strange
+strategy stress structure stupid succeed successful such suddenly suggest suit suitable summer sunny support
+suppose surf surprise surprised surprising survey sweet symbol system tablet talent target task taste teaching
+technology teenage temperature term text themselves thick thief thin thinking throat throw tidy tie tiny tip tool top
+touch tour tourism towards towel tower toy track tradition traditional train trainer training transport traveller
+trouble truck twin typical underground understanding unfortunately unhappy uniform unit united unusual upset
+useless user usual valley van variety vehicle view virus voice volleyball vote wait war waste weak web wedding
+weigh weight while whole whose wide wild wind wing within wonder wood wool worried worry worse worst wow yet yoga
+zero
+`,
+  B1: `
+absolutely academic access accommodation account achievement acknowledge act addition additional admire admit
+advance advanced advantage advert affair afford aggressive agreement alarm alien all allow amazed ambition ambitious
+analyse analysis announce announcement annoy annoyed annoying apart apologize application appointment appreciate
+approximately arrest arrival assignment assist atmosphere attach attitude attract attractive automatic awake
+aware badge bake balance ban bandage basic basis battery battle beauty bee belief bell bend beside bet beyond bin
+biscuit blame blind bond boot border bother branch brand brave breath breathe breathing bride bubble bullet bury
+bush cable calm campaign candidate capable captain capture careless carpet cartoon category ceiling celebration
+central certificate chain challenge champion channel chapter charge cheat cheerful chemical chest childhood citizen
+claim clap classic climber coin collection combination combine comfort command commercial commit communication
+comparison competitor competitive complaint complex concentrate conclude conclusion confident confirm confuse
+confused connection conservation consist consumer contact container content contest contract contribute convenient
+convince cope cottage cough council countryside courage court crash creature crew criticism criticize cruel cultural
+curious current currently curtain custom cycle damage deaf deal debate decade decorate defeat defend definite delay
+deliver delivery demand demonstrate deny deposit depressed depth describe deserve desire despite destination
+detailed determined development diamond dig direct disabled disadvantage disagreement disappointed disappointing
+discount dislike divide documentary donate doubt dozen drag drama dramatic drawer drown due dust duty earthquake
+economic economy edge edit edition educate educated educational effective efficient effort elbow elect election
+element elsewhere embarrassed embarrassing emergency emotion emotional employment empty encourage enemy engaged
+engineering entertain entertainment entrance entry envelope episode equal equally escape essential eventually
+examine exchange excuse exhibition existence expedition experienced exploration explode explore explosion export
+extraordinary fairly faith fake familiar fancy fantasy fascinating fault fee fence fiction firm fitness
+flag flame flash flexible float flood flow fold folk following force forecast forever forgive fortune found frame
+freedom freeze frequently friendship frighten frightened frightening frozen fully fund funeral gain generation
+generous genius gentle gentleman gesture ghost giant glad global glove goods gossip grab grade graduate grand grant
+grateful grave greatly growth guard guarantee guilty habitat handle harm harmful headline heal hearing heaven
+helicopter hell hesitate highlight hire historic historical hole honey honour horrible hug huge human humour hunt
+hunting ignore illegal imagination impatient impress impression impressive improvement incident income increasingly
+indeed industrial infection influence inform initial injure injured innocent insist install instance institution
+insurance intend intention invest investigate investment ironic issue jail jealous jewel joint journal judge
+justice keen kit labour lack landscape latest launch layer league leather legal leisure license lifetime lightning
+limit literature loan lonely loss loyal luxury magic mainly maintain majority makeup manufacture marriage mass massive
+mate mature maximum mayor meanwhile measure media mental mess military mineral minimum minor mission mix mixture mood
+moral motivate motivation murder mysterious mystery nation native naturally navy nearby neat negotiate nest
+nevertheless nightmare nonsense nor nuclear obey obvious obviously occupy occur odd offence offensive ongoing
+operate operation opponent oppose opposition organ origin originally outcome output overall overcome owe pace pale
+panic parade participate partly passion passive patience pause peaceful penalty pension permanent permit persuade
+phase philosophy pile pity pleasant pleasure plenty poem poet poetry poison poisonous pole policy polish pop portrait
+possess pot potential pour poverty powerful practical praise pray prayer precious precise pregnant preparation
+presence preserve pressure pretend previous pride priest primary prince princess principal principle priority
+private probable procedure profit prominent proof proper properly property proportion proposal prospect protection
+protest proud prove psychology punish punishment pure pursue puzzle qualification qualify queue quote rank rapid
+rare rarely raw realistic reality rebuild recall recognition recover reference reflect reform refuse regard regret
+reject relate relation relative release relevant relief religion religious rely remain remark remind remote rent
+representative reputation request require rescue resident resolve resource respect responsibility responsible
+revenge reverse revise reward rhythm rid risk rival rob robbery rocket romance romantic rough row royal ruin rural
+rush sacrifice sadness sake sample satisfied satisfy scale scheme scream script seal secure security seek select
+selection senior sensible sensitive sequence settle severe sew shade shadow shallow shame shelf shell shelter shift
+shine shock shocked shocking shoot shot sight signal significant silence silent silly sink slave slice slide slight
+slightly smooth soul spare species spirit spiritual split spot spread stable staff status steady steam stick stiff
+sting stir stock stranger stream strength stretch strict strike string stroke struggle studio stuff substance
+suburb suffer sufficient suicide sum summit supply surface surgery surround surrounding survival survive suspect
+swallow swear sweat swing sympathy tale tank tap tear technical technique temple tend tension terrific terror
+theory therefore thread threat threaten throughout thumb thus tide tight till tin tiny tone tongue tough trace trade
+tragedy trail transfer transform trap treasure treat treatment trend trial tribe trick troop tropical trust truth
+tube tune tunnel unemployed unemployment unique universe unknown unless unlike unlikely urban urge urgent valuable
+value vast venue version victim victory violence violent virtual visible vision vital volume volunteer wander
+warn warning wave wealth weapon weird whatever wheel whenever whereas wherever whisper widely willing wisdom wise
+witness wonder worth wound wrap yard youth
+`,
+  B2: `
+abandon absence absorb abstract absurd abundant abuse accelerate accessible accompany accomplish accumulate accurate
+accuse acquire adapt addiction adequate adjust administration adolescent adopt adverse advocate aesthetic affection
+agenda aid alert align allegation alliance allocate ally alter ambiguous amend ample amuse analogy anchor anger angle
+anniversary annual anticipate anxiety anxious apparent apparently appeal applause appoint appropriate approve arise
+arrogant artificial ash aspect aspire assault assemble assert assess asset assume assumption assure astonish
+attain attempt attendance attribute authentic authority autonomy bare barely barrier bay beam beneath betray bias
+bitter blade blank blast bless blessing bloom blossom blush boast bold boom boost bounce bound boundary breed brief
+brilliance bundle burden burst cage calculate canal cancer capacity casual cater caution cease celebrate chamber
+chaos characteristic charm chase cherish chill circumstance cite civil civilian clarify clash cling clue cluster
+coalition collapse colony combat comet commence commitment commodity compact companion compassion compel compensate
+competent compile complement complicated comply component compose composition comprehensive compromise conceal
+concept concern concrete condemn conduct confess confession confidence confine conflict confront congress conquer
+conscience conscious consent consequence consequently conservative considerable consistent constant constitute
+construct consult consume consumption contemporary contempt contradict contrary contrast controversial convention
+conviction cooperate coordinate core corporate corrupt corruption counsel counter courtesy crack craft crawl crisis
+criterion critic critical crucial crude crush crystal cure curse curve cushion cute dare dawn dazzle debt deceive
+decent decline decorate dedicate deed defeat deficit define definition delicate delight deliberately democracy
+democratic dense depart depict deprive derive descend despair desperate destiny destruction detect deteriorate
+devote devoted diagnose dialect dignity dilemma dimension diminish dip diplomat disappear discipline disguise dismiss
+disorder dispute disrupt distinct distinguish distort distract distress distribute district disturb diverse divine
+dominant dominate donation doom draft drain dread drift drown dull dumb durable dusk dwell dynamic eager echo edible
+elaborate elegant eliminate embrace emerge emission emphasis emphasize empire enable encounter endless endure
+enforce engage enhance enormous enterprise enthusiasm enthusiastic entitle entity envy equation equivalent era erode
+erupt essence establish estate estimate eternal ethic ethnic evaluate evident evil evolution evolve exaggerate
+exceed exception excess exclude exhaust exhausted exile expand expansion expertise exploit expose extend extent
+external extinct fabric facilitate faculty fade fame famine fantastic fascinate fatal fate feast feather federal
+fierce flaw flee flesh flick flourish fluid foam forbid forge formula fragile fragment frank frequency friction
+frontier frustrate fulfil fury fuse gaze gear generate genuine glance gleam glimpse glitter glory glow govern grace
+graceful gradual grain grasp grief grieve grip gross guidance guilt halt harbour hardship harsh harvest haunt hazard
+heir hemisphere heritage hollow homeless horizon hostile humble humid hypothesis identical identity ideology idle
+illusion illustrate immense immigrant immune impact imply impose impulse incentive incline indicate indifferent
+indulge inevitable infinite inherit inhabitant initiative injustice innovation insight inspire instinct integrate
+integrity intellectual intense interfere interior internal interpret interrupt interval intervene intimate invade
+invest irony isolate jealousy journey joy justify kneel lament landmark lane lap lavish leak leap legacy legend
+legislation legitimate liberal liberty linger literal locate logic lone longing loyalty lure mankind margin marine
+mayor melancholy melody memorial mercy mere merely merit mess metaphor migrate mild mirror misery mislead moderate
+modest monitor monster monument morality mortal motive mourn mutual myth naive narrative neglect nerve neutral
+noble notion nourish novel numb nurture objective obligation obscure observe obstacle obtain occasional offspring
+omit optimistic orbit ordeal orient outline outrage outstanding overwhelm overwhelming pale paradise parallel
+passionate pathetic patron peak peculiar perceive perception persist perspective pierce pioneer plea plead plunge
+portray pose postpone precede predecessor prejudice premise prescribe preside prestige presume prevail prey
+proclaim profound prohibit prolong promote prompt prone prosper prosperity provoke publicity punch pupil pursuit
+quest radical rage raid rally range rational readily realm rebel recession reckless reconcile recruit refine reflection
+refuge regime regulate rehearse reign reinforce relentless reluctant remedy render renew repay replicate reproduce
+resemble resent reside resign resist resistance resolution restore restrain restrict retain retire retreat reveal
+revelation revolution rhetoric ridiculous ripple ritual roam rot rumour sacred sanction scar scatter scent scholar
+scope scrap scratch seize sensation sentiment serene setback shatter shed shield shiver shrink shrug siege sigh
+simulate sincere sin skeptical slam slap slip slope sneak soar sober solitary sorrow sovereign span spark spectacular
+spectrum speculate sphere spine spontaneous spouse squeeze stain stake stark startle statue steep steer stem
+stimulate straightforward strain strand strive subsequent subtle suburb successive suck summon superb superior
+supervise supplement suppress supreme surge surrender suspend suspicion sustain swift symbolic symptom tackle
+tactic tangle tease temper temporary tempt tender terminal territory testimony texture thereby thorough thrill
+thrive throne thrust tidal timid toll torment torture toxic trait tranquil transition transmit tremble tremendous
+trigger triumph trivial turmoil twist ultimate undergo undermine undertake unify unveil uphold utility utter vague
+vain valid vanish vapor variable venture verdict verse vertical vessel veteran via vibrant vice vigorous virtue
+vivid vow vulnerable wage warrant weary weave whereby wicked wither withdraw worship wreck yearn yield zeal
+`,
+  C1: `
+abolish abyss accessory acclaim accord acquaintance adhere adjacent adorn adversary advent affirm affluent aftermath
+agile agonize ailment alienate allay allege alleviate allude aloof amass amid anguish animosity annihilate anomaly
+antagonize antidote apathy appease arbitrary ardent arduous articulate ascend ascertain aspiration assail astray
+astute atone atrocity audacity augment austere avid awe awkward baffle banish barren beckon benevolent bereave
+besiege bestow bewilder bicker blatant bleak blunder blunt blur bolster bombard brace brink brittle brood brunt
+brutal buoyant bustle cajole callous candid capricious captivate caress catastrophe cavity cherish chronic clamour
+clandestine cleave clench coerce cognitive coherent collide commemorate commend compassionate compelling complacent
+comprise concede conceive concise concur condone confer conform congestion conjure connotation consecrate
+conspicuous conspire contemplate contend contention contingent converge convey convulse cordial corrode covert covet
+cower crave credible creed crumble cryptic culminate cunning curb cynical daunting dazed dearth debris decay
+decipher decree deem defer defiance defiant deflect defy degenerate deity delegate delusion demise denounce deplete
+deploy deride desolate destitute deter detrimental devastate deviate devour dexterity diffuse digress dilute dire
+discern discord discourse discreet disdain disillusion dismal dismantle disparity dispel disperse disposition
+dissent dissipate dissolve dissuade divert divulge docile dormant downcast drench drowsy dubious dwindle earnest
+ebb eccentric eclipse ecstasy edict eerie efface elapse elated elicit elude elusive emanate embark embed embellish
+embody eminent empathy encompass endeavour engulf enigma enrich entail enthral entice entwine envisage ephemeral
+epitome equilibrium eradicate erratic escalate esteem evade evoke exalt exasperate excavate exemplify exert exhilarate
+exodus exotic expel explicit exquisite extinguish extravagant exuberant fabricate facade fallacy falter fathom feeble
+feign fervent fickle flagrant flair flamboyant flaunt fleeting flicker flinch flounder fluctuate foresee forfeit
+forlorn formidable forsake fortify foster fraught frenzy frivolous frugal futile gallant garish garner ghastly gist
+glare glaze glean gloom gloomy glorious gnaw gorgeous grapple gratify gratitude grim grotesque grudge gruesome
+haggard hamper haphazard harbinger harrowing haughty havoc hectic heed heinous herald heresy hinder hoard hover hue
+hysteria immaculate imminent impair impart impeccable impede impending imperative impetus implicit implore impose
+impoverish incessant incite incline incongruous indignant induce inept inertia infamous infer inflict infuse
+ingenious inhibit innate innuendo inscribe insinuate instigate insulate intact interim intertwine intricate intrigue
+intrinsic inundate invoke irate irk jeopardy jubilant juxtapose kindle lacklustre languish lapse latent laud lethal
+lethargic levity linger lofty loom lucid lull luminous lurk luscious lush malice malicious mandate manifest meagre
+meander meddle mediocre melancholic menace meticulous mimic mingle mirage mischief misgiving mitigate mock mundane
+murky muse muster mutter myriad nag nascent navigate nestle nimble nostalgia nostalgic notorious novice nuance
+nullify oblique oblivion oblivious obsess obsolete obstinate ominous onset opaque opulent orchestrate ornate oust
+outcast outset overt pacify pang paradox paramount pathos peer pensive perish perpetual perplex persevere pertinent
+pervade petty pinnacle pious placid plague plausible plight plummet poignant ponder posterity potent precarious
+precipitate preclude predicament predominant preoccupy prestigious pretext prevalent pristine prodigy profane
+proficient proliferate prolific propel propensity prophecy prophet prosecute prowess prudent pungent purge
+quaint qualm quell quench radiant rampant rancour ransom rapture ravage rebuke recede reciprocate reckon reclaim
+recollect rectify redeem redundant reel refrain rejoice relinquish relish reminisce remnant remorse renounce
+renowned repel repent replenish reprimand repress resilience resilient resolute resonate respite restless resurrect
+retaliate reticent retort revere revive revoke rigid rigorous riveting robust rouse rupture ruthless sabotage sage
+salient salvage sanctuary savour scorn scrutiny seclude seduce serenade sheer serenity shackle shimmer shroud shudder
+shun simmer sinister skim slander slumber smother smoulder snare sneer solace solemn soothe sordid sparse spur
+squander stagger stagnant staunch steadfast stifle stigma stoic stray strenuous stumble subdue submerge subside
+substantiate subvert succumb suffocate sullen sumptuous supple surmount surpass susceptible swagger swarm sway
+taint tangible tantalize tarnish tedious temperament tenacious tentative tenuous thwart tirade torrent tout tranquil
+transcend transient traverse treacherous tremor trepidation tumult turbulent tyranny ubiquitous unravel unrest
+unscathed unwavering upheaval usurp vacant vehement veil vengeance venerate verge vex vibrate vigilant vindicate
+volatile vouch wane wary waver whim wistful wrath wretched writhe zealous zenith
+`,
+  C2: `
+aberration abhor abjure abscond abstruse acerbic acquiesce acrimony admonish adroit adulation aegis affable
+alacrity allegory amalgam ambivalent ameliorate anachronism anathema antithesis aplomb apocryphal apotheosis
+appease approbation arcane archetype ardour ascetic assiduous assuage atrophy austerity avarice axiom bane bastion
+beguile belie bellicose bequeath berate bilk blandishment blithe bombast boorish brazen bucolic burgeon burnish
+byzantine cacophony cadence callow calumny candour capitulate castigate catharsis caustic censure chagrin charlatan
+chicanery chimera churlish circumlocution circumspect clairvoyant cloying coalesce cogent commiserate complicity
+conciliatory conflagration confluence conjecture consternation contrite conundrum convivial copious coquette
+corroborate coterie countenance craven credulous culpable cupidity curmudgeon cursory dalliance dearth debacle
+debauchery decorum deference deleterious delineate demagogue demur denigrate denizen deprecate deride desiccate
+desultory diatribe diffident dilapidated dilatory dirge disabuse discomfit disconsolate disparage disquiet
+dissemble dissonance diurnal doggerel dogmatic dolorous duplicity ebullient effigy effrontery effulgent egregious
+elegy elixir eloquence emaciate embroil emollient encomium endemic enervate engender enmity ennui epicure epiphany
+epistle equanimity equivocal erudite esoteric ethereal eulogy euphemism evanescent exacerbate excoriate execrable
+exhort exigent expiate expunge extol extricate facetious fallow fastidious fatuous fawn fecund felicity fervour
+fetter fidelity filial finesse flagellate flippant florid foible foment forbearance forlorn fortitude fractious
+fulminate fulsome furtive gainsay gambit garrulous gossamer grandiloquent gregarious guile hackneyed halcyon
+harangue hegemony heterodox hiatus hubris iconoclast idiosyncrasy idyll ignominy imbroglio immolate immutable
+impecunious imperious impervious impetuous implacable importune impregnable impugn impunity inchoate incorrigible
+inculcate indefatigable indolent ineffable inexorable ingenuous inimical iniquity insidious insipid insouciant
+intransigent inveigle inveterate invective irascible itinerant jaded jejune jocular juggernaut labyrinth
+lachrymose laconic languid largesse lascivious lassitude laudable legerdemain leviathan libertine licentious
+limpid lionize lissome loquacious lugubrious lurid machination magnanimous malediction malfeasance malinger
+maudlin mawkish mellifluous mendacious mercurial meretricious miasma minatory misanthrope mollify moribund morose
+munificent myopic nadir nefarious neophyte nettle noisome nonchalant obdurate obfuscate obsequious obstreperous
+obtuse odious officious onerous opprobrium ossify ostentatious palliate panacea panegyric paragon pariah parsimony
+paucity pellucid penchant penury peregrinate perfidy perfunctory pernicious perspicacious pertinacious
+phlegmatic pillage pithy placate platitude plethora pliant polemic portent precipitous predilection prescient
+prevaricate probity proclivity prodigal profligate profusion promulgate propinquity propitiate prosaic proscribe
+protean provident puerile pugnacious pulchritude punctilious pusillanimous quagmire querulous quiescent quixotic
+rancorous rapacious rarefied recalcitrant recondite redolent refulgent remonstrate repast replete reprobate
+repudiate requiem requite rescind restive reticence reverie ribald rife sacrosanct sagacious salubrious sanguine
+sardonic saturnine scintillate scurrilous sedulous senescent sententious sepulchral seraphic sibilant simulacrum
+sinecure solicitous somnolent sophistry soporific spurious squalid stentorian stolid striate stygian sublime
+subterfuge supercilious superfluous supplicate surfeit surreptitious sybarite sycophant tacit taciturn talisman
+temerity tenebrous tenet threnody tirade torpid tortuous tractable transgress tremulous trenchant trepidation
+truculent tumid turgid turpitude umbrage unctuous untoward upbraid usury vacillate vapid venal veneer veracity
+verbose verdant vestige vicarious vicissitude vilify virulent vitriol vituperate vociferous voluble voracious
+wanton waylay whimsical winsome wistful zephyr
+`,
+};
@@ -13,6 +13,7 @@ import {
   ReviewScreen,
   OthersScreen,
   PracticeScreen,
+  ExtractionReviewScreen,
 } from '../screens';
 
 const Tab = createBottomTabNavigator();
@@ -76,6 +77,7 @@ export const AppNavigator = () => {
     <NavigationContainer>
       <MainStack.Navigator screenOptions={{ headerShown: false }}>
         <MainStack.Screen name="MainTabs" component={TabNavigator} />
+        <MainStack.Screen name="ExtractionReview" component={ExtractionReviewScreen} />
       </MainStack.Navigator>
     </NavigationContainer>
   );
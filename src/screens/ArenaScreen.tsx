@@ -12,6 +12,8 @@ import { COLORS } from '../constants';
 import { useAppStore } from '../store';
 import { Word, Source, Song } from '../types';
 import { evaluateAnswer, AnswerEvaluation } from '../services/gemini';
+import { getDueWords, scoreToGrade } from '../services/srs';
+import { findWordForm } from '../services/lemmatizer';
 
 interface ArenaScreenProps {
   navigation: any;
@@ -19,6 +21,7 @@ interface ArenaScreenProps {
 
 type ChallengeMode = '4choice' | 'fill';
 type ArenaStep = 'settings' | 'songSelect' | 'challenge';
+type QueueMode = 'due' | 'random';
 
 interface Challenge {
   word: Word;
@@ -34,7 +37,7 @@ interface Challenge {
 }
 
 export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
-  const { words, sources, songs, settings, addWrongAnswer } = useAppStore();
+  const { words, sources, songs, settings, addWrongAnswer, reviewWord } = useAppStore();
   
   const [arenaStep, setArenaStep] = useState<ArenaStep>('settings');
   const [searchQuery, setSearchQuery] = useState('');
@@ -44,6 +47,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
   const [wordCount, setWordCount] = useState(5);
   const [customWordCount, setCustomWordCount] = useState('');
   const [challengeMode, setChallengeMode] = useState<ChallengeMode>('fill');
+  const [queueMode, setQueueMode] = useState<QueueMode>('due');
   
   const [challenges, setChallenges] = useState<Challenge[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -55,7 +59,8 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
   const [evaluationResult, setEvaluationResult] = useState<AnswerEvaluation | null>(null);
 
   const sortedSongs = useMemo(() => {
-    return [...songs].sort((a, b) => b.createdAt - a.createdAt);
+    // 导入队列中还没处理完的歌曲没有单词
+    return songs.filter((s) => s.status === 'completed').sort((a, b) => b.createdAt - a.createdAt);
   }, [songs]);
 
   const availableSongs = useMemo(() => {
@@ -71,18 +76,20 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
   const availableWords = useMemo(() => {
     let filtered = words.filter(w => !w.isMastered);
     if (mode === 'single' && selectedSong) {
-      const songSources = sources.filter(s => s.songTitle === selectedSong.title);
+      const songSources = sources.filter(s => s.songId === selectedSong.id);
       const wordIds = [...new Set(songSources.map(s => s.wordId))];
       filtered = filtered.filter(w => wordIds.includes(w.id));
     } else if (mode === 'mixed' && selectedSongs.length > 0) {
-      const songTitles = selectedSongs.map(s => s.title);
-      const songSources = sources.filter(s => songTitles.includes(s.songTitle));
+      const songIds = selectedSongs.map(s => s.id);
+      const songSources = sources.filter(s => songIds.includes(s.songId));
       const wordIds = [...new Set(songSources.map(s => s.wordId))];
       filtered = filtered.filter(w => wordIds.includes(w.id));
     }
     return filtered;
   }, [mode, selectedSong, selectedSongs, words, sources]);
 
+  const dueWords = useMemo(() => getDueWords(availableWords), [availableWords]);
+
   const goToSongSelect = () => {
     if (mode === 'all') {
       startChallenge();
@@ -97,9 +104,14 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
       return;
     }
 
+    if (queueMode === 'due' && dueWords.length === 0) {
+      Alert.alert('Nothing due', 'No words are due for review today');
+      return;
+    }
+
     const count = customWordCount ? parseInt(customWordCount, 10) : wordCount;
-    const shuffled = [...availableWords].sort(() => Math.random() - 0.5);
-    const selectedWords = shuffled.slice(0, Math.min(count, shuffled.length));
+    const queue = queueMode === 'due' ? dueWords : [...availableWords].sort(() => Math.random() - 0.5);
+    const selectedWords = queue.slice(0, Math.min(count, queue.length));
     
     const newChallenges: Challenge[] = selectedWords.map(word => {
       const wordSources = sources.filter(s => s.wordId === word.id);
@@ -110,6 +122,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
       
       const options = [word, ...shuffledOthers].map(w => w.word).sort(() => Math.random() - 0.5);
       
+      const song = songs.find(s => s.id === source?.songId);
       const sentenceRaw = source?.lyricSentence || word.example || '';
       const sentenceEnRaw = source?.lyricSentenceEn || word.example || '';
       
@@ -117,18 +130,23 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
       const regex = new RegExp(replaceWordStr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
       const sentenceWithBlank = sentenceRaw.replace(regex, '____');
       
-      const wordRegex = new RegExp(word.word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+      // 译文里可能是屈折形式（例如 consumed），按实际出现的写法挖空
+      const wordForm = findWordForm(word.word, sentenceEnRaw) || word.word;
+      const wordRegex = new RegExp(wordForm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
       const sentenceEnWithBlank = sentenceEnRaw.replace(wordRegex, '____');
+
+      // 英文歌曲在英文原句上挖空，下面显示整句中文译文
+      const isEnglishSong = song?.language === 'en' && !!source;
       
       return {
         word,
-        sentence: sentenceWithBlank,
-        sentenceEn: sentenceEnWithBlank,
+        sentence: isEnglishSong ? sentenceEnWithBlank : sentenceWithBlank,
+        sentenceEn: isEnglishSong ? source.lyricTranslated : sentenceEnWithBlank,
         sentenceEnWithBlank: sentenceEnWithBlank,
         sentenceOriginal: sentenceRaw,
         correctAnswer: word.word,
         options,
-        songTitle: source?.songTitle || '',
+        songTitle: song?.title || source?.songTitle || '',
         replaceWord: replaceWordStr,
       };
     });
@@ -158,6 +176,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
         );
         
         setEvaluationResult(result);
+        reviewWord(currentChallenge.word.id, scoreToGrade(result.score, result.isCorrect));
         
         if (result.isCorrect || result.score >= 70) {
           setSelectedAnswer('correct');
@@ -186,6 +205,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
         Alert.alert('API请求失败', `评估出错: ${errorMessage}`);
         const isCorrect = userInput.trim().toLowerCase() === currentChallenge.correctAnswer.toLowerCase();
         setSelectedAnswer(isCorrect ? 'correct' : 'wrong');
+        reviewWord(currentChallenge.word.id, scoreToGrade(isCorrect ? 100 : 0, isCorrect));
         if (isCorrect) {
           setScore(score + 1);
         } else {
@@ -221,6 +241,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
       return updated;
     });
     setSelectedAnswer(isCorrect ? 'correct' : 'wrong');
+    reviewWord(currentChallenge.word.id, scoreToGrade(isCorrect ? 100 : 0, isCorrect));
     
     if (isCorrect) {
       setScore(score + 1);
@@ -317,6 +338,28 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🗓️ Queue</Text>
+          <View style={styles.modeRow}>
+            <TouchableOpacity
+              style={[styles.modeButton, queueMode === 'due' && styles.modeButtonActive]}
+              onPress={() => setQueueMode('due')}
+            >
+              <Text style={[styles.modeButtonText, queueMode === 'due' && styles.modeButtonTextActive]}>
+                Due today
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modeButton, queueMode === 'random' && styles.modeButtonActive]}
+              onPress={() => setQueueMode('random')}
+            >
+              <Text style={[styles.modeButtonText, queueMode === 'random' && styles.modeButtonTextActive]}>
+                Random
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>📊 Word Count: {customWordCount || wordCount}</Text>
           <View style={styles.countRow}>
@@ -382,7 +425,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
 
         <View style={styles.infoRow}>
           <Text style={styles.infoText}>
-            Available: {availableWords.length} words
+            Available: {availableWords.length} words | Due today: {dueWords.length}
           </Text>
         </View>
 
@@ -433,7 +476,7 @@ export const ArenaScreen: React.FC<ArenaScreenProps> = ({ navigation }) => {
 
         <View style={styles.songGrid}>
           {availableSongs.map(song => {
-            const songSources = sources.filter(src => src.songTitle === song.title);
+            const songSources = sources.filter(src => src.songId === song.id);
             const wordCount = [...new Set(songSources.map(s => s.wordId))].length;
             const isSelected = mode === 'mixed' ? selectedSongs.some(s => s.id === song.id) : selectedSong?.id === song.id;
             
@@ -10,35 +10,39 @@ import {
 } from 'react-native';
 import { COLORS } from '../constants';
 import { useAppStore } from '../store';
-import { ApiProvider, GEMINI_MODELS, NVIDIA_MODELS, OPENCODE_MODELS } from '../types';
+import { ApiProvider, CustomEndpoint, LibraryBackup, ImportMode } from '../types';
+import { CUSTOM_PROVIDER_PREFIX, DEFAULT_PROVIDER_ID, getProviders, getProviderConfig, parseHeaders, formatHeaders } from '../services/providers';
+import { createBackup, exportBackupFile, pickBackupFile, BackupParseResult } from '../services/backup';
 
 interface ControlScreenProps {
   navigation: any;
 }
 
+const EMPTY_ENDPOINT_FORM = { id: '', name: '', baseURL: '', model: '', headers: '' };
+
 export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
-  const { blacklist, addToBlacklist, removeFromBlacklist, stats, words, settings, updateSettings, clearAllData } = useAppStore();
+  const { blacklist, addToBlacklist, removeFromBlacklist, stats, words, sources, songs, wrongAnswers, settings, updateSettings, clearAllData, importLibrary } = useAppStore();
   const [newBlacklistWord, setNewBlacklistWord] = useState('');
-  const [tempGeminiKey, setTempGeminiKey] = useState(settings.geminiApiKey);
-  const [tempNvidiaKey, setTempNvidiaKey] = useState(settings.nvidiaApiKey);
-  const [tempOpenCodeKey, setTempOpenCodeKey] = useState(settings.opencodeApiKey);
+  const [tempKeys, setTempKeys] = useState(settings.apiKeys);
   const [selectedProvider, setSelectedProvider] = useState<ApiProvider>(settings.apiProvider);
-  const [selectedGeminiModel, setSelectedGeminiModel] = useState(settings.geminiModel);
-  const [selectedNvidiaModel, setSelectedNvidiaModel] = useState(settings.nvidiaModel);
-  const [selectedOpenCodeModel, setSelectedOpenCodeModel] = useState(settings.opencodeModel);
+  const [selectedModels, setSelectedModels] = useState(settings.models);
+  const [tempEndpoints, setTempEndpoints] = useState(settings.customEndpoints);
+  const [maxRetries, setMaxRetries] = useState(settings.maxRetries);
+  const [fallbacks, setFallbacks] = useState(settings.fallbacks);
+  const [endpointForm, setEndpointForm] = useState(EMPTY_ENDPOINT_FORM);
   const [customModel, setCustomModel] = useState('');
   const [selectedStyle, setSelectedStyle] = useState(settings.aiStyle);
   const [quotaStatus, setQuotaStatus] = useState<'idle' | 'checking' | 'ok' | 'error'>('idle');
   const [quotaError, setQuotaError] = useState('');
+  const [isTransferring, setIsTransferring] = useState(false);
 
   useEffect(() => {
-    setTempGeminiKey(settings.geminiApiKey);
-    setTempNvidiaKey(settings.nvidiaApiKey);
-    setTempOpenCodeKey(settings.opencodeApiKey);
+    setTempKeys(settings.apiKeys);
     setSelectedProvider(settings.apiProvider);
-    setSelectedGeminiModel(settings.geminiModel);
-    setSelectedNvidiaModel(settings.nvidiaModel);
-    setSelectedOpenCodeModel(settings.opencodeModel);
+    setSelectedModels(settings.models);
+    setTempEndpoints(settings.customEndpoints);
+    setMaxRetries(settings.maxRetries);
+    setFallbacks(settings.fallbacks);
     setSelectedStyle(settings.aiStyle);
   }, [settings]);
 
@@ -47,57 +51,11 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
     setQuotaError('');
     
     try {
-      if (selectedProvider === 'gemini') {
-        const { GoogleGenerativeAI } = await import('@google/generative-ai');
-        const genAI = new GoogleGenerativeAI(tempGeminiKey);
-        const model = genAI.getGenerativeModel({ model: selectedGeminiModel });
-        
-        const result = await model.generateContent('test');
-        if (result.response) {
-          setQuotaStatus('ok');
-        } else {
-          setQuotaStatus('error');
-          setQuotaError('No response from API');
-        }
-      } else if (selectedProvider === 'nvidia') {
-        const { default: OpenAI } = await import('openai');
-        const client = new OpenAI({
-          baseURL: 'https://integrate.api.nvidia.com/v1',
-          apiKey: tempNvidiaKey,
-        });
-        
-        const completion = await client.chat.completions.create({
-          model: selectedNvidiaModel,
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 1,
-        });
-        
-        if (completion.choices[0]) {
-          setQuotaStatus('ok');
-        } else {
-          setQuotaStatus('error');
-          setQuotaError('No response from API');
-        }
-      } else if (selectedProvider === 'opencode') {
-        const { default: OpenAI } = await import('openai');
-        const client = new OpenAI({
-          baseURL: 'https://opencode.ai/zen/v1',
-          apiKey: tempOpenCodeKey,
-        });
-        
-        const completion = await client.chat.completions.create({
-          model: selectedOpenCodeModel,
-          messages: [{ role: 'user', content: 'test' }],
-          max_tokens: 1,
-        });
-        
-        if (completion.choices[0]) {
-          setQuotaStatus('ok');
-        } else {
-          setQuotaStatus('error');
-          setQuotaError('No response from API');
-        }
+      if (!currentProvider) {
+        throw new Error('Unknown API provider');
       }
+      await currentProvider.healthCheck(getProviderConfig(currentProvider, { apiKeys: tempKeys, models: selectedModels }));
+      setQuotaStatus('ok');
     } catch (error: any) {
       setQuotaStatus('error');
       if (error.message?.includes('quota') || error.message?.includes('rate limit')) {
@@ -110,6 +68,132 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
     }
   };
 
+  const handleExportBackup = async () => {
+    setIsTransferring(true);
+    try {
+      const backup = createBackup({ words, sources, songs, blacklist, wrongAnswers }, stats, settings);
+      await exportBackupFile(backup);
+    } catch (error: any) {
+      Alert.alert('Export Failed', error?.message || 'Unknown error');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const applyBackup = async (backup: LibraryBackup, mode: ImportMode) => {
+    setIsTransferring(true);
+    try {
+      const before = useAppStore.getState().words.length;
+      await importLibrary(backup, mode);
+      const after = useAppStore.getState().words.length;
+      Alert.alert(
+        'Import Complete',
+        mode === 'merge' ? `Added ${after - before} new words` : `Library replaced with ${after} words`
+      );
+    } catch (error: any) {
+      Alert.alert('Import Failed', error?.message || 'Unknown error');
+    } finally {
+      setIsTransferring(false);
+    }
+  };
+
+  const handleImportBackup = async () => {
+    let parsed: BackupParseResult | null;
+    try {
+      parsed = await pickBackupFile();
+    } catch (error: any) {
+      Alert.alert('Import Failed', error?.message || 'Unknown error');
+      return;
+    }
+    if (!parsed) return;
+
+    const { backup: selected, skipped } = parsed;
+    const skippedNote = skipped.length > 0 ? `\n\nSkipped invalid records: ${skipped.join(', ')}.` : '';
+    Alert.alert(
+      'Import Library',
+      `This backup has ${selected.words.length} words and ${selected.songs.length} songs.${skippedNote}\n\nMerge keeps your current library and adds new words. Replace deletes your current library first.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => applyBackup(selected, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => applyBackup(selected, 'replace') },
+      ]
+    );
+  };
+
+  const handleSaveEndpoint = () => {
+    const baseURL = endpointForm.baseURL.trim().replace(/\/+$/, '');
+    if (!/^https?:\/\//.test(baseURL)) {
+      Alert.alert('Error', 'Base URL must start with http:// or https://');
+      return;
+    }
+    if (!endpointForm.model.trim()) {
+      Alert.alert('Error', 'Please enter a model name');
+      return;
+    }
+
+    const endpoint: CustomEndpoint = {
+      id: endpointForm.id || Date.now().toString(),
+      name: endpointForm.name.trim() || baseURL,
+      baseURL,
+      model: endpointForm.model.trim(),
+      headers: parseHeaders(endpointForm.headers),
+    };
+    const providerId = `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`;
+    setTempEndpoints((endpoints) =>
+      endpointForm.id
+        ? endpoints.map((e) => (e.id === endpoint.id ? endpoint : e))
+        : [...endpoints, endpoint]
+    );
+    // 自定义端点只有一个模型，编辑后以端点里的模型为准，去掉之前选过的模型
+    setSelectedModels((models) => {
+      const next = { ...models };
+      delete next[providerId];
+      return next;
+    });
+    setFallbacks((items) => items.map((f) => (f.provider === providerId ? { ...f, model: endpoint.model } : f)));
+    setSelectedProvider(providerId);
+    setEndpointForm(EMPTY_ENDPOINT_FORM);
+  };
+
+  const handleEditEndpoint = (endpoint: CustomEndpoint) => {
+    setEndpointForm({
+      id: endpoint.id,
+      name: endpoint.name,
+      baseURL: endpoint.baseURL,
+      model: endpoint.model,
+      headers: formatHeaders(endpoint.headers),
+    });
+  };
+
+  const handleRemoveEndpoint = (endpoint: CustomEndpoint) => {
+    Alert.alert(
+      'Remove endpoint',
+      `Remove "${endpoint.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => {
+            setTempEndpoints((endpoints) => endpoints.filter((e) => e.id !== endpoint.id));
+            setFallbacks((items) => items.filter((f) => f.provider !== `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`));
+            setSelectedModels((models) => {
+              const next = { ...models };
+              delete next[`${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`];
+              return next;
+            });
+            if (selectedProvider === `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`) {
+              setSelectedProvider(DEFAULT_PROVIDER_ID);
+            }
+            if (endpointForm.id === endpoint.id) {
+              setEndpointForm(EMPTY_ENDPOINT_FORM);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleAddBlacklist = async () => {
     if (!newBlacklistWord.trim()) {
       Alert.alert('Error', 'Please enter a word');
@@ -133,12 +217,11 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
   const handleSaveSettings = async () => {
     await updateSettings({
       apiProvider: selectedProvider,
-      geminiApiKey: tempGeminiKey,
-      nvidiaApiKey: tempNvidiaKey,
-      opencodeApiKey: tempOpenCodeKey,
-      geminiModel: selectedGeminiModel,
-      nvidiaModel: selectedNvidiaModel,
-      opencodeModel: selectedOpenCodeModel,
+      apiKeys: tempKeys,
+      models: selectedModels,
+      customEndpoints: tempEndpoints,
+      maxRetries,
+      fallbacks,
       aiStyle: selectedStyle,
     });
     Alert.alert('Success', 'Settings saved!');
@@ -147,21 +230,24 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
   const masteredCount = words.filter((w) => w.isMastered).length;
   const totalCount = words.length;
 
-  const getCurrentModels = () => {
-    if (selectedProvider === 'gemini') return GEMINI_MODELS;
-    if (selectedProvider === 'nvidia') return NVIDIA_MODELS;
-    return OPENCODE_MODELS;
-  };
-  
-  const currentModels = getCurrentModels();
-  const currentModel = customModel || (selectedProvider === 'gemini' ? selectedGeminiModel : selectedProvider === 'nvidia' ? selectedNvidiaModel : selectedOpenCodeModel);
+  const providers = getProviders({ customEndpoints: tempEndpoints });
+  const currentProvider = providers.find((p) => p.id === selectedProvider);
+  const currentModels = currentProvider?.models || [];
+  const selectedModel = currentProvider ? getProviderConfig(currentProvider, { models: selectedModels }).model : '';
+  const currentModel = customModel || selectedModel;
   const setCurrentModel = (model: string) => {
-    if (selectedProvider === 'gemini') setSelectedGeminiModel(model);
-    else if (selectedProvider === 'nvidia') setSelectedNvidiaModel(model);
-    else setSelectedOpenCodeModel(model);
+    setSelectedModels((models) => ({ ...models, [selectedProvider]: model }));
   };
   const isCustomModel = !!customModel;
 
+  const handleAddFallback = (providerId: string) => {
+    const provider = providers.find((p) => p.id === providerId);
+    if (!provider) return;
+    const model = getProviderConfig(provider, { models: selectedModels }).model;
+    if (fallbacks.some((f) => f.provider === providerId && f.model === model)) return;
+    setFallbacks((items) => [...items, { provider: providerId, model }]);
+  };
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Text style={styles.title}>The Control</Text>
@@ -190,82 +276,104 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>🤖 AI Provider</Text>
         <View style={styles.providerContainer}>
-          <TouchableOpacity
-            style={[styles.providerButton, selectedProvider === 'gemini' && styles.providerButtonActive]}
-            onPress={() => setSelectedProvider('gemini')}
-          >
-            <Text style={[styles.providerText, selectedProvider === 'gemini' && styles.providerTextActive]}>
-              Google Gemini
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.providerButton, selectedProvider === 'nvidia' && styles.providerButtonActive]}
-            onPress={() => setSelectedProvider('nvidia')}
-          >
-            <Text style={[styles.providerText, selectedProvider === 'nvidia' && styles.providerTextActive]}>
-              NVIDIA
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.providerButton, selectedProvider === 'opencode' && styles.providerButtonActive]}
-            onPress={() => setSelectedProvider('opencode')}
-          >
-            <Text style={[styles.providerText, selectedProvider === 'opencode' && styles.providerTextActive]}>
-              OpenCode
-            </Text>
-          </TouchableOpacity>
+          {providers.map((provider) => (
+            <TouchableOpacity
+              key={provider.id}
+              style={[styles.providerButton, selectedProvider === provider.id && styles.providerButtonActive]}
+              onPress={() => setSelectedProvider(provider.id)}
+            >
+              <Text style={[styles.providerText, selectedProvider === provider.id && styles.providerTextActive]}>
+                {provider.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
         </View>
         <Text style={styles.currentInfo}>
-          Current: {selectedProvider === 'gemini' ? selectedGeminiModel : selectedProvider === 'nvidia' ? selectedNvidiaModel : selectedOpenCodeModel}
+          Current: {selectedModel}
         </Text>
       </View>
 
       <View style={styles.section}>
-        <Text style={styles.sectionTitle}>🔑 API Key</Text>
-        {selectedProvider === 'gemini' ? (
-          <View style={styles.settingCard}>
-            <TextInput
-              style={styles.apiInput}
-              value={tempGeminiKey}
-              onChangeText={setTempGeminiKey}
-              placeholder="Enter Gemini API key..."
-              placeholderTextColor={COLORS.textMuted}
-              secureTextEntry
-            />
-            <Text style={styles.apiHint}>
-              Default key pre-configured. Get your own from Google AI Studio
-            </Text>
+        <Text style={styles.sectionTitle}>🖥️ Custom Endpoints</Text>
+        <Text style={styles.sectionDescription}>
+          Any OpenAI-compatible server, e.g. Ollama, LM Studio or llama.cpp
+        </Text>
+        {tempEndpoints.map((endpoint) => (
+          <View key={endpoint.id} style={styles.endpointItem}>
+            <TouchableOpacity style={styles.endpointInfo} onPress={() => handleEditEndpoint(endpoint)}>
+              <Text style={styles.endpointName}>{endpoint.name}</Text>
+              <Text style={styles.apiHint}>{endpoint.baseURL} · {endpoint.model}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleRemoveEndpoint(endpoint)} style={styles.removeButton}>
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
           </View>
-        ) : selectedProvider === 'nvidia' ? (
-          <View style={styles.settingCard}>
-            <TextInput
-              style={styles.apiInput}
-              value={tempNvidiaKey}
-              onChangeText={setTempNvidiaKey}
-              placeholder="Enter NVIDIA API key..."
-              placeholderTextColor={COLORS.textMuted}
-              secureTextEntry
-            />
-            <Text style={styles.apiHint}>
-              Get your API key from NVIDIA NGC
-            </Text>
+        ))}
+        <View style={styles.settingCard}>
+          <TextInput
+            style={styles.apiInput}
+            value={endpointForm.name}
+            onChangeText={(name) => setEndpointForm((form) => ({ ...form, name }))}
+            placeholder="Name (e.g., LAN box)"
+            placeholderTextColor={COLORS.textMuted}
+          />
+          <TextInput
+            style={styles.apiInput}
+            value={endpointForm.baseURL}
+            onChangeText={(baseURL) => setEndpointForm((form) => ({ ...form, baseURL }))}
+            placeholder="Base URL (e.g., http://192.168.1.10:11434/v1)"
+            placeholderTextColor={COLORS.textMuted}
+            autoCapitalize="none"
+            keyboardType="url"
+          />
+          <TextInput
+            style={styles.apiInput}
+            value={endpointForm.model}
+            onChangeText={(model) => setEndpointForm((form) => ({ ...form, model }))}
+            placeholder="Model (e.g., qwen2.5:14b)"
+            placeholderTextColor={COLORS.textMuted}
+            autoCapitalize="none"
+          />
+          <TextInput
+            style={styles.apiInput}
+            value={endpointForm.headers}
+            onChangeText={(headers) => setEndpointForm((form) => ({ ...form, headers }))}
+            placeholder={'Extra headers, one per line\nX-Header: value'}
+            placeholderTextColor={COLORS.textMuted}
+            autoCapitalize="none"
+            multiline
+          />
+          <View style={styles.backupRow}>
+            <TouchableOpacity style={styles.backupButton} onPress={handleSaveEndpoint}>
+              <Text style={styles.backupButtonText}>{endpointForm.id ? 'Update Endpoint' : '➕ Add Endpoint'}</Text>
+            </TouchableOpacity>
+            {endpointForm.id ? (
+              <TouchableOpacity style={styles.backupButton} onPress={() => setEndpointForm(EMPTY_ENDPOINT_FORM)}>
+                <Text style={styles.backupButtonText}>Cancel</Text>
+              </TouchableOpacity>
+            ) : null}
           </View>
-        ) : (
+        </View>
+      </View>
+
+      {currentProvider && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🔑 API Key</Text>
           <View style={styles.settingCard}>
             <TextInput
               style={styles.apiInput}
-              value={tempOpenCodeKey}
-              onChangeText={setTempOpenCodeKey}
-              placeholder="Enter OpenCode API key..."
+              value={tempKeys[currentProvider.id] || ''}
+              onChangeText={(text) => setTempKeys((keys) => ({ ...keys, [currentProvider.id]: text }))}
+              placeholder={currentProvider.keyField.placeholder}
               placeholderTextColor={COLORS.textMuted}
               secureTextEntry
             />
             <Text style={styles.apiHint}>
-              Get your API key from opencode.ai/zen
+              {currentProvider.keyField.hint}
             </Text>
           </View>
-        )}
-      </View>
+        </View>
+      )}
 
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>📋 Model</Text>
@@ -313,6 +421,50 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
         ) : null}
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>🔁 Retries & Fallbacks</Text>
+        <Text style={styles.sectionDescription}>
+          Rate limits, server errors and timeouts are retried with backoff, then each fallback is tried in order
+        </Text>
+        <View style={styles.modelContainer}>
+          {[0, 1, 2, 3, 5].map((count) => (
+            <TouchableOpacity
+              key={count}
+              style={[styles.modelButton, maxRetries === count && styles.modelButtonActive]}
+              onPress={() => setMaxRetries(count)}
+            >
+              <Text style={[styles.modelText, maxRetries === count && styles.modelTextActive]}>
+                {count === 0 ? 'No retry' : `${count}×`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {fallbacks.map((fallback, index) => (
+          <View key={`${fallback.provider}-${fallback.model}`} style={styles.endpointItem}>
+            <View style={styles.endpointInfo}>
+              <Text style={styles.endpointName}>
+                {index + 1}. {providers.find((p) => p.id === fallback.provider)?.name || fallback.provider}
+              </Text>
+              <Text style={styles.apiHint}>{fallback.model}</Text>
+            </View>
+            <TouchableOpacity
+              onPress={() => setFallbacks((items) => items.filter((_, i) => i !== index))}
+              style={styles.removeButton}
+            >
+              <Text style={styles.removeButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+        <Text style={styles.apiHint}>Add fallback (uses that provider's selected model):</Text>
+        <View style={[styles.modelContainer, styles.fallbackOptions]}>
+          {providers.filter((p) => p.id !== selectedProvider).map((provider) => (
+            <TouchableOpacity key={provider.id} style={styles.modelButton} onPress={() => handleAddFallback(provider.id)}>
+              <Text style={styles.modelText}>+ {provider.name}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>🎵 Translation Style</Text>
         <View style={styles.styleOptions}>
@@ -385,6 +537,29 @@ export const ControlScreen: React.FC<ControlScreenProps> = ({ navigation }) => {
         )}
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>📦 Backup</Text>
+        <Text style={styles.sectionDescription}>
+          Export words, sources, songs, blacklist, wrong answers, stats and settings (without API keys) as a JSON file
+        </Text>
+        <View style={styles.backupRow}>
+          <TouchableOpacity
+            style={[styles.backupButton, isTransferring && styles.quotaButtonDisabled]}
+            onPress={handleExportBackup}
+            disabled={isTransferring}
+          >
+            <Text style={styles.backupButtonText}>📤 Export</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.backupButton, isTransferring && styles.quotaButtonDisabled]}
+            onPress={handleImportBackup}
+            disabled={isTransferring}
+          >
+            <Text style={styles.backupButtonText}>📥 Import</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>🗑️ Clear All Data</Text>
         <Text style={styles.sectionDescription}>
@@ -486,11 +661,13 @@ const styles = StyleSheet.create({
   },
   providerContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
     marginBottom: 12,
   },
   providerButton: {
     flex: 1,
+    minWidth: '28%',
     backgroundColor: COLORS.surface,
     borderRadius: 12,
     padding: 16,
@@ -515,6 +692,26 @@ const styles = StyleSheet.create({
     color: COLORS.textMuted,
     textAlign: 'center',
   },
+  endpointItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  fallbackOptions: {
+    marginTop: 8,
+  },
+  endpointInfo: {
+    flex: 1,
+  },
+  endpointName: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
   settingCard: {
     backgroundColor: COLORS.surface,
     borderRadius: 12,
@@ -630,6 +827,24 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  backupRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  backupButton: {
+    flex: 1,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  backupButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   dangerButton: {
     backgroundColor: '#F44336',
     padding: 16,
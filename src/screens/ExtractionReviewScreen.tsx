@@ -0,0 +1,487 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { COLORS, LEVELS } from '../constants';
+import { useAppStore } from '../store';
+import { Song, ExtractedWord, ExtractionDraft } from '../types';
+import { buildLibraryEntries, formatProvenance } from '../services/extraction';
+import { isSameLemma } from '../services/lemmatizer';
+
+export interface ExtractionReviewParams extends ExtractionDraft {
+  /** 重新提取已有歌曲时为该歌曲的 id，确认时与原有来源合并或替换 */
+  songId?: string;
+}
+
+interface ExtractionReviewScreenProps {
+  navigation: any;
+  route: any;
+}
+
+interface Candidate extends ExtractedWord {
+  selected: boolean;
+}
+
+/**
+ * 提取结果的确认页：取消勾选、修改释义和级别、一键加入黑名单，确认后才写入词库
+ */
+export const ExtractionReviewScreen: React.FC<ExtractionReviewScreenProps> = ({ navigation, route }) => {
+  const { songTitle, artist, lyrics, language, translation, provenance, songId, timedLines, words: extracted, notes } =
+    route.params as ExtractionReviewParams;
+  const { words, sources, songs, settings, commitSongWords, setPendingImport, addToBlacklist } = useAppStore();
+  const [candidates, setCandidates] = useState<Candidate[]>(() =>
+    extracted.map((w) => ({ ...w, selected: true }))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const existingByWord = useMemo(
+    () => new Map(words.map((w) => [w.word.toLowerCase(), w])),
+    [words]
+  );
+
+  const selectedCount = candidates.filter((c) => c.selected).length;
+
+  // 重新提取时与这首歌原有的来源对比
+  const existingSong = songId ? songs.find((s) => s.id === songId) : undefined;
+  const songSources = useMemo(() => (songId ? sources.filter((s) => s.songId === songId) : []), [sources, songId]);
+  const songWords = useMemo(
+    () => words.filter((w) => songSources.some((s) => s.wordId === w.id)),
+    [words, songSources]
+  );
+  const findSongWord = (word: string) => songWords.find((w) => isSameLemma(w.word, word));
+  const droppedWords = songWords.filter((w) => !candidates.some((c) => isSameLemma(c.word, w.word)));
+  const newCount = candidates.filter((c) => !findSongWord(c.word)).length;
+
+  const updateCandidate = (index: number, updates: Partial<Candidate>) => {
+    setCandidates((prev) => prev.map((c, i) => (i === index ? { ...c, ...updates } : c)));
+  };
+
+  const handleBlacklist = async (index: number) => {
+    const candidate = candidates[index];
+    setCandidates((prev) => prev.filter((_, i) => i !== index));
+    await addToBlacklist(candidate.word);
+  };
+
+  const handleDiscard = () => {
+    Alert.alert(
+      'Discard Words',
+      existingSong
+        ? `Discard all ${candidates.length} candidate words? "${songTitle}" keeps its current words.`
+        : `Discard all ${candidates.length} candidate words? "${songTitle}" will not be saved.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => {
+            if (!existingSong) setPendingImport(null);
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  /** replacingSongId 的原有来源即将被替换，不算作重复 */
+  const buildEntries = (targetSongId: string, replacingSongId?: string) => {
+    const { words: currentWords, sources: currentSources } = useAppStore.getState();
+    return buildLibraryEntries(
+      candidates.filter((c) => c.selected),
+      { songId: targetSongId, songTitle, artist, language, timedLines, provenance },
+      currentWords,
+      currentSources.filter((s) => s.songId !== replacingSongId)
+    );
+  };
+
+  /**
+   * 歌曲、单词和来源在同一个事务中写入，中途退出不会留下只保存了一半的歌曲
+   */
+  const handleCommit = async () => {
+    setIsSaving(true);
+    const newSongId = Date.now().toString();
+    const newSong: Song = {
+      id: newSongId,
+      title: songTitle,
+      artist,
+      language,
+      lyrics: lyrics,
+      ...(translation ? { translation } : {}),
+      ...(timedLines.length > 0 ? { timedLines } : {}),
+      status: 'completed',
+      createdAt: Date.now(),
+    };
+
+    try {
+      const { newWords, newSources } = buildEntries(newSongId);
+      await commitSongWords(newSong, newWords, newSources, false, true);
+      Alert.alert('Success', `Saved ${selectedCount} words from "${songTitle}"!`);
+      navigation.navigate('MainTabs', { screen: 'Treasury' });
+    } catch (error: any) {
+      console.error('Save words error:', error);
+      Alert.alert('Save Failed', error?.message || 'Unknown error');
+      setIsSaving(false);
+    }
+  };
+
+  /**
+   * 重新提取的结果：merge 保留原有来源只补充新的，replace 用这次的结果替换这首歌的全部来源
+   */
+  const handleReprocessCommit = async (replace: boolean) => {
+    if (!existingSong) return;
+    setIsSaving(true);
+    try {
+      const { newWords, newSources } = buildEntries(existingSong.id, replace ? existingSong.id : undefined);
+      // 新译文随结果一起保存，沿用同一种风格重新提取时也会覆盖旧译文
+      const updatedSong: Song = { ...existingSong, ...(translation ? { translation } : {}) };
+      await commitSongWords(updatedSong, newWords, newSources, replace);
+      Alert.alert(
+        'Success',
+        replace
+          ? `Replaced the words of "${songTitle}" with ${selectedCount} words`
+          : `Added ${newSources.length} new sources to "${songTitle}"`
+      );
+      navigation.goBack();
+    } catch (error: any) {
+      console.error('Reprocess save error:', error);
+      Alert.alert('Save Failed', error?.message || 'Unknown error');
+      setIsSaving(false);
+    }
+  };
+
+  const handleReplace = () => {
+    Alert.alert(
+      'Replace Words',
+      `Remove all current sources of "${songTitle}" and keep only the ${selectedCount} selected words? Words that only appear in this song and are not selected will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Replace', style: 'destructive', onPress: () => handleReprocessCommit(true) },
+      ]
+    );
+  };
+
+  const renderDuplicateNote = (candidate: Candidate) => {
+    const songWord = existingSong ? findSongWord(candidate.word) : undefined;
+    if (songWord) {
+      const source = songSources.find((s) => s.wordId === songWord.id);
+      return (
+        <Text style={styles.duplicateText}>
+          ♻️ Already from this song{source?.provenance ? ` (${formatProvenance(source.provenance, settings)})` : ''}
+        </Text>
+      );
+    }
+    if (existingSong) {
+      return <Text style={styles.newText}>🆕 New for this song</Text>;
+    }
+    const existing = existingByWord.get(candidate.word.toLowerCase());
+    if (!existing) return null;
+    const sameLine = sources.some((s) => s.wordId === existing.id && s.lyricSentence === candidate.sentence);
+    return (
+      <Text style={styles.duplicateText}>
+        {sameLine
+          ? '♻️ Already in Treasury with this line — nothing new to save'
+          : `♻️ Already in Treasury (${existing.meaning.split(':')[0]}) — this line is added as a new source`}
+      </Text>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={handleDiscard} style={styles.backButton} disabled={isSaving}>
+          <Text style={styles.backButtonText}>← Discard</Text>
+        </TouchableOpacity>
+        <Text style={styles.title}>{existingSong ? 'Reprocess' : 'Review Words'}</Text>
+        <Text style={styles.subtitle}>
+          {songTitle} · {selectedCount} of {candidates.length} selected
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {existingSong && (
+          <View style={styles.notesCard}>
+            <Text style={styles.diffSummary}>
+              🆕 {newCount} new · ♻️ {candidates.length - newCount} already from this song · ➖ {droppedWords.length} not found this time
+            </Text>
+            <Text style={styles.noteText}>This run: {formatProvenance(provenance, settings)}</Text>
+            {droppedWords.map((word) => (
+              <Text key={word.id} style={styles.droppedText}>
+                ➖ {word.word} — kept on Merge, removed on Replace
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {notes.length > 0 && (
+          <View style={styles.notesCard}>
+            {notes.map((note, index) => (
+              <Text key={index} style={styles.noteText}>• {note}</Text>
+            ))}
+          </View>
+        )}
+
+        {candidates.length === 0 && (
+          <Text style={styles.emptyText}>No words left to save</Text>
+        )}
+
+        {candidates.map((candidate, index) => (
+          <View
+            key={`${candidate.word}-${index}`}
+            style={[styles.card, !candidate.selected && styles.cardUnselected]}
+          >
+            <View style={styles.cardHeader}>
+              <TouchableOpacity
+                style={styles.checkbox}
+                onPress={() => updateCandidate(index, { selected: !candidate.selected })}
+              >
+                <Text style={styles.checkboxText}>{candidate.selected ? '☑️' : '⬜'}</Text>
+              </TouchableOpacity>
+              <Text style={styles.wordText}>{candidate.word}</Text>
+              <TouchableOpacity style={styles.blacklistButton} onPress={() => handleBlacklist(index)}>
+                <Text style={styles.blacklistButtonText}>🚫 Blacklist</Text>
+              </TouchableOpacity>
+            </View>
+
+            {renderDuplicateNote(candidate)}
+
+            <View style={styles.levelRow}>
+              {Object.values(LEVELS).map((level) => (
+                <TouchableOpacity
+                  key={level}
+                  style={[styles.levelChip, candidate.level === level && styles.levelChipActive]}
+                  onPress={() => updateCandidate(index, { level })}
+                >
+                  <Text style={[styles.levelChipText, candidate.level === level && styles.levelChipTextActive]}>
+                    {level}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              style={styles.meaningInput}
+              value={candidate.meaning}
+              onChangeText={(meaning) => updateCandidate(index, { meaning })}
+              placeholder="Meaning"
+              placeholderTextColor={COLORS.textMuted}
+              multiline
+            />
+
+            <Text style={styles.lyricText}>{candidate.sentence}</Text>
+            <Text style={styles.lyricTextEn}>
+              {language === 'en' ? candidate.sentenceZh : candidate.sentenceEn}
+            </Text>
+          </View>
+        ))}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {existingSong ? (
+          <View style={styles.footerRow}>
+            <TouchableOpacity
+              style={[styles.button, styles.footerButton, isSaving && styles.buttonDisabled]}
+              onPress={() => handleReprocessCommit(false)}
+              disabled={isSaving}
+            >
+              <Text style={styles.buttonText}>➕ Merge</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.footerButton, styles.replaceButton, isSaving && styles.buttonDisabled]}
+              onPress={handleReplace}
+              disabled={isSaving}
+            >
+              <Text style={styles.buttonText}>🔁 Replace</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.button, (selectedCount === 0 || isSaving) && styles.buttonDisabled]}
+            onPress={handleCommit}
+            disabled={selectedCount === 0 || isSaving}
+          >
+            <Text style={styles.buttonText}>💾 Save {selectedCount} Words</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    padding: 20,
+    paddingTop: 60,
+  },
+  backButton: {
+    marginBottom: 16,
+  },
+  backButtonText: {
+    color: COLORS.primary,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: COLORS.textSecondary,
+  },
+  content: {
+    padding: 20,
+    paddingTop: 10,
+  },
+  notesCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 4,
+  },
+  noteText: {
+    color: COLORS.textSecondary,
+    fontSize: 13,
+  },
+  emptyText: {
+    color: COLORS.textMuted,
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    gap: 8,
+  },
+  cardUnselected: {
+    opacity: 0.5,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  checkbox: {
+    padding: 2,
+  },
+  checkboxText: {
+    fontSize: 20,
+  },
+  wordText: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  blacklistButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  blacklistButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 12,
+  },
+  duplicateText: {
+    color: COLORS.warning,
+    fontSize: 13,
+  },
+  newText: {
+    color: COLORS.success,
+    fontSize: 13,
+  },
+  diffSummary: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  droppedText: {
+    color: COLORS.error,
+    fontSize: 13,
+  },
+  levelRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  levelChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  levelChipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  levelChipText: {
+    color: COLORS.textSecondary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  levelChipTextActive: {
+    color: COLORS.text,
+  },
+  meaningInput: {
+    backgroundColor: COLORS.background,
+    borderRadius: 8,
+    padding: 10,
+    fontSize: 14,
+    color: COLORS.text,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  lyricText: {
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  lyricTextEn: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  footer: {
+    padding: 20,
+    paddingBottom: 30,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  button: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 12,
+    padding: 18,
+    alignItems: 'center',
+  },
+  footerRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  footerButton: {
+    flex: 1,
+  },
+  replaceButton: {
+    backgroundColor: COLORS.error,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: COLORS.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
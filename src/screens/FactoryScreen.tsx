@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
   View,
   Text,
@@ -10,10 +10,15 @@ import {
   Alert,
 } from 'react-native';
 import { COLORS } from '../constants';
-import { extractVocabulary } from '../services/gemini';
-import { StorageService } from '../services/storage';
+import { parseVocabularyList, pickVocabularyFile } from '../services/vocabImport';
+import { extractSongWords } from '../services/extraction';
+import { LANGUAGES } from '../services/languages';
+import { TimedLine, parseLyricFile, pickLyricFile, pickLyricFiles } from '../services/lyricFile';
 import { useAppStore } from '../store';
-import { Word, Source, Song } from '../types';
+import { ExtractionDraft, FactoryDraft, PendingImport, Song, SongLanguage } from '../types';
+
+/** 停止输入多久后保存草稿 */
+const DRAFT_SAVE_DELAY_MS = 800;
 
 interface FactoryScreenProps {
   navigation: any;
@@ -21,181 +26,296 @@ interface FactoryScreenProps {
 
 export const FactoryScreen: React.FC<FactoryScreenProps> = ({ navigation }) => {
   const [songTitle, setSongTitle] = useState('');
+  const [artist, setArtist] = useState('');
   const [lyrics, setLyrics] = useState('');
+  const [timedLines, setTimedLines] = useState<TimedLine[]>([]);
+  const [language, setLanguage] = useState<SongLanguage>('zh');
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState('');
   const [progressPercent, setProgressPercent] = useState(0);
+  const [translationLines, setTranslationLines] = useState<string[]>([]);
+  const [parsedCount, setParsedCount] = useState(0);
   
-  const { addWord, addSource, addSong, blacklist, words, sources, songs, settings } = useAppStore();
+  const abortRef = useRef<AbortController | null>(null);
+  const draftRestoredRef = useRef(false);
+
+  const {
+    addWords,
+    enqueueSongs,
+    blacklist,
+    settings,
+    isLoading,
+    factoryDraft,
+    pendingImport,
+    lastImportSavedAt,
+    saveFactoryDraft,
+    setPendingImport,
+  } = useAppStore();
+
+  const applyDraft = (draft: FactoryDraft) => {
+    setSongTitle(draft.title);
+    setArtist(draft.artist);
+    setLyrics(draft.lyrics);
+    setLanguage(draft.language);
+    setTimedLines(draft.timedLines);
+  };
+
+  // 数据加载完成后恢复草稿，并检查上次是否有没完成的导入
+  useEffect(() => {
+    if (isLoading || draftRestoredRef.current) return;
+    draftRestoredRef.current = true;
+    if (factoryDraft) applyDraft(factoryDraft);
+    if (pendingImport) promptPendingImport(pendingImport);
+  }, [isLoading]);
+
+  // 确认页保存后清空表单（草稿已随保存的事务删除）
+  useEffect(() => {
+    if (!lastImportSavedAt) return;
+    setSongTitle('');
+    setArtist('');
+    setLyrics('');
+    setTimedLines([]);
+  }, [lastImportSavedAt]);
+
+  useEffect(() => {
+    if (!draftRestoredRef.current) return;
+    const timer = setTimeout(() => {
+      const isEmpty = !songTitle.trim() && !artist.trim() && !lyrics.trim();
+      saveFactoryDraft(
+        isEmpty ? null : { title: songTitle, artist, lyrics, language, timedLines, updatedAt: Date.now() }
+      );
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [songTitle, artist, lyrics, language, timedLines]);
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('blur', () => abortRef.current?.abort());
+    return () => {
+      unsubscribe();
+      abortRef.current?.abort();
+    };
+  }, [navigation]);
+
+  const handleImportList = async () => {
+    try {
+      const file = await pickVocabularyFile();
+      if (!file) return;
+
+      const { words, sources } = useAppStore.getState();
+      const listName = file.name.replace(/\.(csv|tsv|txt)$/i, '');
+      const result = parseVocabularyList(file.text, words, sources, listName);
+      if (result.words.length > 0 || result.sources.length > 0) {
+        await addWords(result.words, result.sources);
+      }
+
+      const lines = [`Imported ${result.words.length} new words (${result.merged} already in Treasury).`];
+      if (result.rejected.length > 0) {
+        lines.push('', `Rejected ${result.rejected.length} rows:`);
+        result.rejected.slice(0, 10).forEach((r) => lines.push(`Row ${r.row}: ${r.reason}`));
+        if (result.rejected.length > 10) lines.push(`…and ${result.rejected.length - 10} more`);
+      }
+      Alert.alert('Word List Imported', lines.join('\n'));
+    } catch (error: any) {
+      console.error('Word list import error:', error);
+      Alert.alert('Import Failed', error?.message || 'Unknown error');
+    }
+  };
 
-  const handleProcess = async () => {
+  const handleImportLyrics = async () => {
+    try {
+      const file = await pickLyricFile();
+      if (!file) return;
+
+      const parsed = parseLyricFile(file.name, file.text);
+      if (parsed.title) setSongTitle(parsed.title);
+      if (parsed.artist) setArtist(parsed.artist);
+      // 同一行歌词可能有多个时间戳（副歌重复），歌词框里只保留按时间顺序的文字
+      setLyrics(parsed.lines.map((line) => line.text).join('\n'));
+      setTimedLines(parsed.lines);
+    } catch (error: any) {
+      console.error('Lyric file import error:', error);
+      Alert.alert('Import Failed', error?.message || 'Unknown error');
+    }
+  };
+
+  const createQueuedSong = (title: string, songArtist: string, songLyrics: string, lines: TimedLine[]): Song => ({
+    id: Date.now().toString() + Math.random(),
+    title,
+    artist: songArtist,
+    language,
+    lyrics: songLyrics,
+    status: 'pending',
+    ...(lines.length > 0 ? { timedLines: lines } : {}),
+    createdAt: Date.now(),
+  });
+
+  /**
+   * 把当前表单加入导入队列，在后台处理，不用等待就可以继续添加下一首
+   */
+  const handleQueue = async () => {
     if (!songTitle.trim() || !lyrics.trim()) {
       Alert.alert('Error', 'Please fill in song title and lyrics');
       return;
     }
 
-    setIsProcessing(true);
-    setProgress('AI is analyzing lyrics...');
-    setProgressPercent(5);
+    await enqueueSongs([createQueuedSong(songTitle.trim(), artist.trim(), lyrics, timedLines)]);
+    Alert.alert('Added to Queue', `"${songTitle.trim()}" will be processed in the background. Check its status in History.`);
+    setSongTitle('');
+    setArtist('');
+    setLyrics('');
+    setTimedLines([]);
+  };
 
+  /** 一次选择多个 LRC / SRT 文件，全部按当前选择的语言加入队列 */
+  const handleQueueFiles = async () => {
     try {
-      const blacklistWords = blacklist.map((b) => b.word);
-      
-      const mergeShortLines = (lines: string[]): string[] => {
-        const result: string[] = [];
-        for (const line of lines) {
-          const chineseCharCount = line.replace(/[^\u4e00-\u9fa5]/g, '').length;
-          if (chineseCharCount < 6 && result.length > 0) {
-            result[result.length - 1] = result[result.length - 1] + ' ' + line;
-          } else {
-            result.push(line);
-          }
-        }
-        return result;
-      };
-      
-      const lines = lyrics.split('\n').filter(line => line.trim());
-      const mergedLines = mergeShortLines(lines);
-      const uniqueLyrics = [...new Set(mergedLines)].join('\n');
-      
-      const allWords: Array<{ word: string; meaning: string; level: string; example: string; exampleZh: string; sentence: string; sentenceEn: string; replaceWord: string }> = [];
-      let requestCount = 0;
-      const maxRequests = 3;
-
-      while (requestCount < maxRequests) {
-        requestCount++;
-        const progressBase = Math.floor((requestCount / maxRequests) * 60);
-        setProgressPercent(10 + progressBase);
-        setProgress(`AI is extracting words... (${requestCount}/${maxRequests})`);
-        
-        const result = await extractVocabulary(uniqueLyrics, songTitle, blacklistWords, settings);
-        
-        if (result.error) {
-          Alert.alert('API请求失败', result.error);
-          setIsExtracting(false);
-          return;
-        }
-        
-        if (result.words.length === 0) {
-          break;
-        }
+      const files = await pickLyricFiles();
+      if (files.length === 0) return;
 
-        for (const w of result.words) {
-          if (!allWords.some(existing => existing.word.toLowerCase() === w.word.toLowerCase())) {
-            allWords.push(w);
-          }
+      const queued: Song[] = [];
+      const failed: string[] = [];
+      for (const file of files) {
+        try {
+          const parsed = parseLyricFile(file.name, file.text);
+          const fileLyrics = parsed.lines.map((line) => line.text).join('\n');
+          queued.push(createQueuedSong(parsed.title || file.name, parsed.artist || '', fileLyrics, parsed.lines));
+        } catch (error: any) {
+          failed.push(`${file.name}: ${error?.message || 'Unknown error'}`);
         }
+      }
+      if (queued.length > 0) await enqueueSongs(queued);
 
-        if (result.words.length < 10) {
-          break;
-        }
+      const lines = [`Queued ${queued.length} songs. Check their status in History.`];
+      if (failed.length > 0) lines.push('', `Skipped ${failed.length} files:`, ...failed);
+      Alert.alert('Added to Queue', lines.join('\n'));
+    } catch (error: any) {
+      console.error('Lyric files queue error:', error);
+      Alert.alert('Import Failed', error?.message || 'Unknown error');
+    }
+  };
 
-        if (allWords.length >= 25) {
-          break;
-        }
-      }
+  /**
+   * 上次导入没有完成：提取被中断的可以重新提取，已提取未保存的可以回到确认页。
+   * 词库写入是一个事务，回滚只需丢弃这条记录
+   */
+  const promptPendingImport = (pending: PendingImport) => {
+    const { draft, review } = pending;
+    const message =
+      pending.stage === 'review' && review
+        ? `"${draft.title}" was extracted (${review.words.length} words) but never saved.`
+        : `Extraction of "${draft.title}" was interrupted.`;
 
-      setProgressPercent(75);
-      setProgress(`Found ${allWords.length} B2+ words`);
-
-      const songId = Date.now().toString();
-      const newSong: Song = {
-        id: songId,
-        title: songTitle,
-        artist: '',
-        language: 'en',
-        lyrics: lyrics,
-        status: 'completed',
-        createdAt: Date.now(),
-      };
-      addSong(newSong);
-
-      setProgressPercent(85);
-
-      const existingWords = await StorageService.getWords();
-      const existingSources = await StorageService.getSources();
-
-      for (const vocabWord of allWords) {
-        const existingWord = existingWords.find(
-          (w) => w.word.toLowerCase() === vocabWord.word.toLowerCase()
-        );
-
-        if (existingWord) {
-          const isSourceDuplicate = existingSources.some(
-            (s) => s.wordId === existingWord.id && 
-                   s.lyricSentence === vocabWord.sentence
-          );
-          
-          if (!isSourceDuplicate) {
-            const newSource: Source = {
-              id: Date.now().toString() + Math.random(),
-              wordId: existingWord.id,
-              songTitle: songTitle,
-              artist: '',
-              lyricSentence: vocabWord.sentence || '',
-              lyricSentenceEn: vocabWord.sentenceEn || '',
-              lyricTranslated: vocabWord.meaning,
-              replaceWord: vocabWord.replaceWord || '',
-            };
-            existingSources.push(newSource);
-            addSource(newSource);
+    Alert.alert('Unfinished Import', `${message}\n\nNothing from it was written to your library.`, [
+      {
+        text: 'Roll Back',
+        style: 'destructive',
+        onPress: () => {
+          applyDraft(draft);
+          setPendingImport(null);
+        },
+      },
+      {
+        text: 'Resume',
+        onPress: () => {
+          if (pending.stage === 'review' && review) {
+            navigation.navigate('ExtractionReview', review);
+          } else {
+            applyDraft(draft);
+            runExtraction(draft);
           }
-        } else {
-          const wordId = Date.now().toString() + Math.random();
-          const wordLevel = vocabWord.level || 'B2';
-          const newWord: Word = {
-            id: wordId,
-            word: vocabWord.word,
-            meaning: vocabWord.meaning,
-            example: vocabWord.example,
-            exampleZh: vocabWord.exampleZh || '',
-            level: wordLevel,
-            isMastered: false,
-            createdAt: Date.now(),
-          };
-          existingWords.push(newWord);
-          addWord(newWord);
-
-          const newSource: Source = {
-            id: Date.now().toString() + Math.random(),
-            wordId: wordId,
-            songTitle: songTitle,
-            artist: '',
-            lyricSentence: vocabWord.sentence || '',
-            lyricSentenceEn: vocabWord.sentenceEn || '',
-            lyricTranslated: vocabWord.meaning,
-            replaceWord: vocabWord.replaceWord || '',
-          };
-          existingSources.push(newSource);
-          addSource(newSource);
+        },
+      },
+    ]);
+  };
+
+  const handleProcess = () => {
+    if (!songTitle.trim() || !lyrics.trim()) {
+      Alert.alert('Error', 'Please fill in song title and lyrics');
+      return;
+    }
+    runExtraction({ title: songTitle, artist, lyrics, language, timedLines, updatedAt: Date.now() });
+  };
+
+  const runExtraction = async (draft: FactoryDraft) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsProcessing(true);
+    setProgress('AI is analyzing lyrics...');
+    setProgressPercent(5);
+    setTranslationLines([]);
+    setParsedCount(0);
+    // 提取开始前先记下，应用在这期间被关闭时下次启动可以继续
+    setPendingImport({ stage: 'extracting', draft, startedAt: Date.now() });
+
+    try {
+      const result = await extractSongWords(
+        { title: draft.title, lyrics: draft.lyrics, language: draft.language },
+        blacklist.map((b) => b.word),
+        settings,
+        controller.signal,
+        (update) => {
+          if (update.message !== undefined) setProgress(update.message);
+          if (update.percent !== undefined) setProgressPercent(update.percent);
+          if (update.translationLines) setTranslationLines(update.translationLines);
+          if (update.parsedCount !== undefined) setParsedCount(update.parsedCount);
         }
+      );
+      if (result.cancelled || result.error || result.words.length === 0) {
+        setPendingImport(null);
       }
+      if (result.cancelled) return;
 
-      setProgressPercent(95);
+      if (result.error) {
+        Alert.alert('API请求失败', result.error);
+        return;
+      }
 
-      await StorageService.saveWords(existingWords);
-      await StorageService.saveSources(existingSources);
-      await StorageService.saveSongs([...songs, newSong]);
+      if (result.words.length === 0) {
+        Alert.alert('No Words Found', ['No B2+ words were found in these lyrics.', ...result.notes].join('\n\n'));
+        return;
+      }
 
-      setProgressPercent(100);
-      setProgress('Done!');
+      const review: ExtractionDraft = {
+        songTitle: draft.title,
+        artist: draft.artist.trim(),
+        lyrics: draft.lyrics,
+        language: draft.language,
+        translation: result.translation,
+        provenance: result.provenance,
+        timedLines: draft.timedLines,
+        words: result.words,
+        notes: result.notes,
+      };
+      // 确认页保存时与词库写入一起清除
+      await setPendingImport({ stage: 'review', draft, review, startedAt: Date.now() });
 
-      setTimeout(() => {
-        Alert.alert('Success', `Extracted ${allWords.length} words!`);
-        setSongTitle('');
-        setLyrics('');
-        setProgress('');
-        setProgressPercent(0);
-        navigation.navigate('Treasury');
-      }, 500);
+      // 写入词库前先到确认页筛选；表单保留到确认页保存之后，放弃时还能接着改
+      navigation.navigate('ExtractionReview', review);
+      setProgress('');
+      setProgressPercent(0);
+      setTranslationLines([]);
+      setParsedCount(0);
     } catch (error) {
       console.error('Processing error:', error);
+      setPendingImport(null);
       Alert.alert('Error', 'Failed to process lyrics');
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsProcessing(false);
     }
   };
 
+  /**
+   * 取消正在进行的提取；歌曲和单词要在确认页保存后才写入，所以取消时不会改动词库
+   */
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    setProgress('');
+    setProgressPercent(0);
+    setTranslationLines([]);
+    setParsedCount(0);
+  };
+
   return (
     <View style={styles.container}>
       <View style={styles.header}>
@@ -203,6 +323,13 @@ export const FactoryScreen: React.FC<FactoryScreenProps> = ({ navigation }) => {
           <Text style={styles.title}>The Factory</Text>
           <Text style={styles.subtitle}>Import your favorite song</Text>
         </View>
+        <TouchableOpacity
+          style={styles.historyButton}
+          onPress={handleImportList}
+          disabled={isProcessing}
+        >
+          <Text style={styles.historyButtonText}>📄 Import CSV</Text>
+        </TouchableOpacity>
       </View>
       <ScrollView contentContainerStyle={styles.content}>
 
@@ -219,7 +346,47 @@ export const FactoryScreen: React.FC<FactoryScreenProps> = ({ navigation }) => {
         </View>
 
         <View style={styles.inputGroup}>
-          <Text style={styles.label}>Lyrics</Text>
+          <Text style={styles.label}>Artist</Text>
+          <TextInput
+            style={styles.input}
+            value={artist}
+            onChangeText={setArtist}
+            placeholder="Optional"
+            placeholderTextColor={COLORS.textMuted}
+            editable={Boolean(!isProcessing)}
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.label}>Lyrics Language</Text>
+          <View style={styles.languageRow}>
+            {LANGUAGES.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.languageButton, language === option.id && styles.languageButtonActive]}
+                onPress={() => setLanguage(option.id)}
+                disabled={isProcessing}
+              >
+                <Text style={[styles.languageButtonText, language === option.id && styles.languageButtonTextActive]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <View style={styles.labelRow}>
+            <Text style={styles.label}>Lyrics</Text>
+            <View style={styles.linkRow}>
+              <TouchableOpacity onPress={handleImportLyrics} disabled={isProcessing}>
+                <Text style={styles.linkText}>🎵 Import LRC / SRT</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleQueueFiles} disabled={isProcessing}>
+                <Text style={styles.linkText}>📚 Queue Files</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
           <TextInput
             style={[styles.input, styles.lyricsInput]}
             value={lyrics}
@@ -241,6 +408,19 @@ export const FactoryScreen: React.FC<FactoryScreenProps> = ({ navigation }) => {
               <View style={[styles.progressBar, { width: `${progressPercent}%` }]} />
             </View>
             <Text style={styles.progressPercent}>{progressPercent}%</Text>
+            {parsedCount > 0 && (
+              <Text style={styles.progressText}>🔤 {parsedCount} words parsed so far</Text>
+            )}
+            {translationLines.length > 0 && (
+              <ScrollView style={styles.translationPreview} nestedScrollEnabled>
+                {translationLines.map((line, index) => (
+                  <Text key={index} style={styles.translationLine}>{line}</Text>
+                ))}
+              </ScrollView>
+            )}
+            <TouchableOpacity style={styles.historyButton} onPress={handleCancel}>
+              <Text style={styles.historyButtonText}>✕ Cancel</Text>
+            </TouchableOpacity>
           </View>
         )}
 
@@ -253,6 +433,14 @@ export const FactoryScreen: React.FC<FactoryScreenProps> = ({ navigation }) => {
             {isProcessing ? 'Processing...' : '✨ Extract Vocabulary'}
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={[styles.queueButton, isProcessing && styles.buttonDisabled]}
+          onPress={handleQueue}
+          disabled={isProcessing}
+        >
+          <Text style={styles.queueButtonText}>➕ Add to Queue</Text>
+        </TouchableOpacity>
       </ScrollView>
     </View>
   );
@@ -306,6 +494,20 @@ const styles = StyleSheet.create({
     color: COLORS.textSecondary,
     marginBottom: 8,
   },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  linkRow: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  linkText: {
+    color: COLORS.primary,
+    fontSize: 14,
+    fontWeight: '500',
+  },
   input: {
     backgroundColor: COLORS.surface,
     borderRadius: 12,
@@ -318,6 +520,33 @@ const styles = StyleSheet.create({
   lyricsInput: {
     height: 200,
   },
+  languageRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  languageButton: {
+    minWidth: '30%',
+    flexGrow: 1,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  languageButtonActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  languageButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  languageButtonTextActive: {
+    color: COLORS.text,
+  },
   progressContainer: {
     alignItems: 'center',
     marginBottom: 20,
@@ -344,6 +573,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  translationPreview: {
+    alignSelf: 'stretch',
+    maxHeight: 180,
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  translationLine: {
+    color: COLORS.text,
+    fontSize: 14,
+    lineHeight: 20,
+  },
   button: {
     backgroundColor: COLORS.primary,
     borderRadius: 12,
@@ -359,4 +602,18 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '600',
   },
+  queueButton: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+  },
+  queueButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
 });
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,25 +9,106 @@ import {
   Alert,
   ScrollView,
   Clipboard,
+  ActivityIndicator,
 } from 'react-native';
 import { COLORS } from '../constants';
 import { useAppStore } from '../store';
-import { StorageService } from '../services/storage';
-import { Song } from '../types';
+import { Song, Word, Source, AIStyle, ApiProvider } from '../types';
+import { exportAnkiDeck } from '../services/anki';
+import { findWordForm } from '../services/lemmatizer';
+import { extractSongWords, formatProvenance } from '../services/extraction';
+import { getProviders, getProviderConfig } from '../services/providers';
+
+const STYLE_OPTIONS: { id: AIStyle; label: string }[] = [
+  { id: 'lyric', label: '🎵 Lyric' },
+  { id: 'poetic', label: '🎭 Poetic' },
+  { id: 'academic', label: '📚 Academic' },
+  { id: 'casual', label: '💬 Casual' },
+];
+
+interface LyricRow {
+  original: string;
+  translated: string;
+}
+
+interface Highlight {
+  text: string;
+  wordId: string;
+}
+
+interface Segment {
+  text: string;
+  wordId?: string;
+}
+
+/**
+ * 把一行歌词按要高亮的词切成若干段；重叠时保留先出现、较长的那个
+ */
+const splitHighlights = (line: string, highlights: Highlight[]): Segment[] => {
+  const ranges: { start: number; end: number; wordId: string }[] = [];
+  for (const { text, wordId } of highlights) {
+    const start = text ? line.indexOf(text) : -1;
+    if (start >= 0) ranges.push({ start, end: start + text.length, wordId });
+  }
+  ranges.sort((a, b) => a.start - b.start || b.end - a.end);
+
+  const segments: Segment[] = [];
+  let cursor = 0;
+  for (const range of ranges) {
+    if (range.start < cursor) continue;
+    if (range.start > cursor) segments.push({ text: line.slice(cursor, range.start) });
+    segments.push({ text: line.slice(range.start, range.end), wordId: range.wordId });
+    cursor = range.end;
+  }
+  if (cursor < line.length) segments.push({ text: line.slice(cursor) });
+  return segments;
+};
+
+/**
+ * 对照阅读的行：优先用保存的整首译文；旧歌曲没有译文时，用来源记录里该行的译句补上
+ */
+const getLyricRows = (song: Song, songSources: Source[]): LyricRow[] => {
+  if (song.translation?.lines.length) return song.translation.lines;
+  return song.lyrics
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((original) => {
+      const source = songSources.find((s) => s.lyricSentence === original || s.lyricSentence.includes(original));
+      const translated = source ? (song.language === 'en' ? source.lyricTranslated : source.lyricSentenceEn) : '';
+      return { original, translated };
+    });
+};
 
 interface HistoryScreenProps {
   navigation: any;
 }
 
 export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
-  const { songs, words, sources } = useAppStore();
-  const [selectedSong, setSelectedSong] = useState<Song | null>(null);
+  const { songs, words, sources, removeSong, retrySong, blacklist, settings } = useAppStore();
+  const [selectedSongId, setSelectedSongId] = useState<string | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const [selectedWordId, setSelectedWordId] = useState<string | null>(null);
+  const [showReprocess, setShowReprocess] = useState(false);
+  const [reprocessStyle, setReprocessStyle] = useState<AIStyle>(settings.aiStyle);
+  const [reprocessProvider, setReprocessProvider] = useState<ApiProvider>(settings.apiProvider);
+  const [reprocessModel, setReprocessModel] = useState('');
+  const [reprocessProgress, setReprocessProgress] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 重新提取保存后歌曲会更新，始终从 store 读取最新的数据
+  const selectedSong = songs.find((s) => s.id === selectedSongId) || null;
+
+  useEffect(() => {
+    const unsubscribe = navigation.addListener('blur', () => abortRef.current?.abort());
+    return () => {
+      unsubscribe();
+      abortRef.current?.abort();
+    };
+  }, [navigation]);
 
   const getWordCountForSong = (songId: string) => {
-    const song = songs.find((s) => s.id === songId);
-    if (!song) return 0;
-    const songSources = sources.filter((s) => s.songTitle === song.title);
+    const songSources = sources.filter((s) => s.songId === songId);
     const uniqueWords = new Set(songSources.map((s) => s.wordId));
     return uniqueWords.size;
   };
@@ -38,10 +119,17 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
   };
 
   const handleSongPress = (song: Song) => {
-    setSelectedSong(song);
+    setSelectedSongId(song.id);
+    setSelectedWordId(null);
+    setShowReprocess(false);
     setModalVisible(true);
   };
 
+  const handleCloseModal = () => {
+    abortRef.current?.abort();
+    setModalVisible(false);
+  };
+
   const handleDeleteSong = (song: Song) => {
     Alert.alert(
       'Delete Song',
@@ -52,27 +140,11 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const songSources = sources.filter((s) => s.songTitle === song.title);
-            const songWordIds = new Set(songSources.map((s) => s.wordId));
-            
-            const remainingSources = sources.filter((s) => s.songTitle !== song.title);
-            const otherWordIds = new Set(remainingSources.map((s) => s.wordId));
-            
-            const wordsToDelete = [...songWordIds].filter((id) => !otherWordIds.has(id));
-            
-            const updatedSongs = songs.filter((s) => s.id !== song.id);
-            const updatedSources = sources.filter((s) => s.songTitle !== song.title);
-            const updatedWords = words.filter((w) => !wordsToDelete.includes(w.id));
-            
-            await StorageService.saveSongs(updatedSongs);
-            await StorageService.saveSources(updatedSources);
-            await StorageService.saveWords(updatedWords);
-            
-            useAppStore.setState({ songs: updatedSongs, sources: updatedSources, words: updatedWords });
+            await removeSong(song.id);
             
-            if (selectedSong?.id === song.id) {
+            if (selectedSongId === song.id) {
               setModalVisible(false);
-              setSelectedSong(null);
+              setSelectedSongId(null);
             }
           },
         },
@@ -80,6 +152,94 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
     );
   };
 
+  const handleExportAnki = async (song: Song) => {
+    const songWordIds = new Set(sources.filter((s) => s.songId === song.id).map((s) => s.wordId));
+    try {
+      await exportAnkiDeck(
+        words.filter((w) => songWordIds.has(w.id)),
+        sources,
+        songs,
+        `MelodyLingo::${song.title}`
+      );
+    } catch (error: any) {
+      Alert.alert('Export Failed', error?.message || 'Unknown error');
+    }
+  };
+
+  const providers = getProviders(settings);
+  const currentProvider = providers.find((p) => p.id === reprocessProvider) || providers[0];
+  const defaultModel = getProviderConfig(currentProvider, settings).model;
+  const modelOptions = [...new Set([defaultModel, ...currentProvider.models])];
+  const currentModel = reprocessModel || defaultModel;
+
+  const handleOpenReprocess = () => {
+    setReprocessStyle(settings.aiStyle);
+    setReprocessProvider(settings.apiProvider);
+    setReprocessModel('');
+    setShowReprocess(true);
+  };
+
+  /**
+   * 用选定的风格和模型对已保存的歌词重新提取，结果在确认页与原有来源对比后再保存
+   */
+  const handleReprocess = async (song: Song) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setReprocessProgress('AI is analyzing lyrics...');
+
+    // 只用选定的模型，不走备用列表，这样结果能对应到这次的选择
+    const reprocessSettings = {
+      ...settings,
+      aiStyle: reprocessStyle,
+      apiProvider: currentProvider.id,
+      models: { ...settings.models, [currentProvider.id]: currentModel },
+      fallbacks: [],
+    };
+
+    try {
+      const result = await extractSongWords(
+        { title: song.title, lyrics: song.lyrics, language: song.language },
+        blacklist.map((b) => b.word),
+        reprocessSettings,
+        controller.signal,
+        (update) => {
+          if (update.message !== undefined) setReprocessProgress(update.message);
+        }
+      );
+      if (result.cancelled) return;
+
+      if (result.error) {
+        Alert.alert('API请求失败', result.error);
+        return;
+      }
+      if (result.words.length === 0) {
+        Alert.alert('No Words Found', ['No B2+ words were found in these lyrics.', ...result.notes].join('\n\n'));
+        return;
+      }
+
+      setModalVisible(false);
+      setShowReprocess(false);
+      navigation.navigate('ExtractionReview', {
+        songId: song.id,
+        songTitle: song.title,
+        artist: song.artist,
+        lyrics: song.lyrics,
+        language: song.language,
+        translation: result.translation,
+        provenance: result.provenance,
+        timedLines: song.timedLines || [],
+        words: result.words,
+        notes: result.notes,
+      });
+    } catch (error: any) {
+      console.error('Reprocess error:', error);
+      Alert.alert('Error', 'Failed to process lyrics');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setReprocessProgress('');
+    }
+  };
+
   const handleCopySongTitle = (title: string) => {
     Clipboard.setString(title);
     Alert.alert('Copied!', `"${title}" copied to clipboard`);
@@ -111,11 +271,173 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
         </View>
       </View>
       <Text style={styles.songDate}>{formatDate(item.createdAt)}</Text>
-      <Text style={styles.wordCount}>📚 {getWordCountForSong(item.id)} words extracted</Text>
+      {renderSongStatus(item)}
     </TouchableOpacity>
   );
 
+  const renderSongStatus = (song: Song) => {
+    switch (song.status) {
+      case 'pending':
+        return <Text style={styles.wordCount}>⏳ Waiting in queue</Text>;
+      case 'processing':
+        return (
+          <View style={styles.statusRow}>
+            <ActivityIndicator color={COLORS.primary} size="small" />
+            <Text style={styles.wordCount}>Processing...</Text>
+          </View>
+        );
+      case 'failed':
+        return (
+          <View style={styles.statusRow}>
+            <Text style={[styles.wordCount, styles.failedText]} numberOfLines={2}>
+              ❌ {song.error || 'Failed'}
+            </Text>
+            <TouchableOpacity
+              style={styles.retryButton}
+              onPress={(e) => {
+                e.stopPropagation();
+                retrySong(song.id);
+              }}
+            >
+              <Text style={styles.retryButtonText}>↻ Retry</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      default:
+        return <Text style={styles.wordCount}>📚 {getWordCountForSong(song.id)} words extracted</Text>;
+    }
+  };
+
+  const renderSegments = (segments: Segment[]) =>
+    segments.map((segment, index) =>
+      segment.wordId ? (
+        <Text
+          key={index}
+          style={[styles.highlight, segment.wordId === selectedWordId && styles.highlightActive]}
+          onPress={() => setSelectedWordId(segment.wordId === selectedWordId ? null : segment.wordId!)}
+        >
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      )
+    );
+
+  const renderProvenance = (song: Song, word: Word) => {
+    const source = sources.find((s) => s.songId === song.id && s.wordId === word.id && s.provenance);
+    return source?.provenance ? (
+      <Text style={styles.wordProvenance}>{formatProvenance(source.provenance, settings)}</Text>
+    ) : null;
+  };
+
+  const renderReprocessPanel = (song: Song) => {
+    const isRunning = !!reprocessProgress;
+    return (
+      <View style={styles.reprocessPanel}>
+        <Text style={styles.sectionLabel}>Style:</Text>
+        <View style={styles.chipRow}>
+          {STYLE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, reprocessStyle === option.id && styles.chipActive]}
+              onPress={() => setReprocessStyle(option.id)}
+              disabled={isRunning}
+            >
+              <Text style={[styles.chipText, reprocessStyle === option.id && styles.chipTextActive]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionLabel}>Provider:</Text>
+        <View style={styles.chipRow}>
+          {providers.map((provider) => (
+            <TouchableOpacity
+              key={provider.id}
+              style={[styles.chip, currentProvider.id === provider.id && styles.chipActive]}
+              onPress={() => {
+                setReprocessProvider(provider.id);
+                setReprocessModel('');
+              }}
+              disabled={isRunning}
+            >
+              <Text style={[styles.chipText, currentProvider.id === provider.id && styles.chipTextActive]}>
+                {provider.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionLabel}>Model:</Text>
+        <View style={styles.chipRow}>
+          {modelOptions.map((model) => (
+            <TouchableOpacity
+              key={model}
+              style={[styles.chip, currentModel === model && styles.chipActive]}
+              onPress={() => setReprocessModel(model)}
+              disabled={isRunning}
+            >
+              <Text style={[styles.chipText, currentModel === model && styles.chipTextActive]}>{model}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {isRunning ? (
+          <View style={styles.reprocessProgress}>
+            <ActivityIndicator color={COLORS.primary} />
+            <Text style={styles.reprocessProgressText}>{reprocessProgress}</Text>
+            <TouchableOpacity onPress={() => abortRef.current?.abort()}>
+              <Text style={styles.cancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.reprocessStartButton} onPress={() => handleReprocess(song)}>
+            <Text style={styles.ankiButtonText}>▶️ Start Reprocess</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderWordCard = (word: Word) => (
+    <View style={styles.wordCard}>
+      <View style={styles.wordCardHeader}>
+        <Text style={styles.wordText}>{word.word}</Text>
+        <Text style={styles.wordLevel}>{word.level}</Text>
+      </View>
+      <Text style={styles.wordCardMeaning}>{word.meaning}</Text>
+      {!!word.example && <Text style={styles.wordCardExample}>{word.example}</Text>}
+      {!!word.exampleZh && <Text style={styles.wordCardExampleZh}>{word.exampleZh}</Text>}
+    </View>
+  );
+
+  const renderLyricReader = (song: Song) => {
+    const songSources = sources.filter((s) => s.songId === song.id);
+    const songWords = words.filter((w) => songSources.some((s) => s.wordId === w.id));
+    // 原文按来源记录的 replaceWord 高亮，英文一栏按单词及其变形高亮
+    const originalHighlights = songSources.map((s) => ({ text: s.replaceWord, wordId: s.wordId }));
+    const rows = getLyricRows(song, songSources);
+    const selectedWord = songWords.find((w) => w.id === selectedWordId);
+
+    return (
+      <>
+        {rows.map((row, index) => {
+          const translatedHighlights = songWords
+            .map((w) => ({ text: findWordForm(w.word, row.translated) || '', wordId: w.id }))
+            .filter((h) => h.text);
+          return (
+            <View key={index} style={styles.lyricRow}>
+              <Text style={styles.lyricOriginal}>{renderSegments(splitHighlights(row.original, originalHighlights))}</Text>
+              <Text style={styles.lyricTranslated}>{renderSegments(splitHighlights(row.translated, translatedHighlights))}</Text>
+            </View>
+          );
+        })}
+        {selectedWord && renderWordCard(selectedWord)}
+      </>
+    );
+  };
+
   const sortedSongs = [...songs].sort((a, b) => b.createdAt - a.createdAt);
+  const queuedCount = songs.filter((s) => s.status === 'pending' || s.status === 'processing').length;
 
   return (
     <View style={styles.container}>
@@ -124,7 +446,9 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
           <Text style={styles.backButtonText}>← Back</Text>
         </TouchableOpacity>
         <Text style={styles.title}>History</Text>
-        <Text style={styles.subtitle}>{songs.length} songs imported</Text>
+        <Text style={styles.subtitle}>
+          {songs.length} songs imported{queuedCount > 0 ? ` · ${queuedCount} in queue` : ''}
+        </Text>
       </View>
 
       {sortedSongs.length === 0 ? (
@@ -151,7 +475,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
         animationType="slide"
         transparent={true}
         visible={modalVisible}
-        onRequestClose={() => setModalVisible(false)}
+        onRequestClose={handleCloseModal}
       >
         <View style={styles.modalOverlay}>
           <View style={styles.modalContent}>
@@ -160,7 +484,7 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
                 <View style={styles.modalHeader}>
                   <Text style={styles.modalTitle}>{selectedSong.title}</Text>
                   <TouchableOpacity
-                    onPress={() => setModalVisible(false)}
+                    onPress={handleCloseModal}
                     style={styles.closeButton}
                   >
                     <Text style={styles.closeButtonText}>✕</Text>
@@ -168,12 +492,14 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
                 </View>
 
                 <ScrollView style={styles.modalBody}>
-                  <Text style={styles.sectionLabel}>Lyrics:</Text>
-                  <Text style={styles.lyricsText}>{selectedSong.lyrics}</Text>
+                  <Text style={styles.sectionLabel}>
+                    Lyrics{selectedSong.translation ? ` (${selectedSong.translation.style})` : ''}:
+                  </Text>
+                  <View style={styles.lyricsReader}>{renderLyricReader(selectedSong)}</View>
 
                   <Text style={[styles.sectionLabel, styles.sectionMargin]}>Words ({getWordCountForSong(selectedSong.id)}):</Text>
                   {sources
-                    .filter((s) => s.songTitle === selectedSong.title)
+                    .filter((s) => s.songId === selectedSong.id)
                     .reduce((unique: any[], source, index, arr) => {
                       if (!unique.find((u) => u.wordId === source.wordId)) {
                         const word = words.find((w) => w.id === source.wordId);
@@ -182,13 +508,30 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({ navigation }) => {
                       return unique;
                     }, [])
                     .map((word) => (
-                      <View key={word.id} style={styles.wordItem}>
+                      <TouchableOpacity key={word.id} style={styles.wordItem} onPress={() => setSelectedWordId(word.id)}>
                         <Text style={styles.wordText}>{word.word}</Text>
-                        <Text style={styles.wordMeaning}>{word.meaning}</Text>
-                      </View>
+                        <View style={styles.wordInfo}>
+                          <Text style={styles.wordMeaning}>{word.meaning}</Text>
+                          {renderProvenance(selectedSong, word)}
+                        </View>
+                      </TouchableOpacity>
                     ))}
+                  {showReprocess && renderReprocessPanel(selectedSong)}
                 </ScrollView>
 
+                {!showReprocess && selectedSong.status === 'completed' && (
+                  <TouchableOpacity style={styles.ankiButton} onPress={handleOpenReprocess}>
+                    <Text style={styles.ankiButtonText}>🔄 Reprocess</Text>
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={styles.ankiButton}
+                  onPress={() => handleExportAnki(selectedSong)}
+                >
+                  <Text style={styles.ankiButtonText}>📇 Export to Anki</Text>
+                </TouchableOpacity>
+
                 <TouchableOpacity
                   style={styles.deleteSongButton}
                   onPress={() => {
@@ -281,6 +624,26 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: COLORS.textSecondary,
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  failedText: {
+    flex: 1,
+    color: COLORS.error,
+  },
+  retryButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  retryButtonText: {
+    color: COLORS.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -349,13 +712,65 @@ const styles = StyleSheet.create({
   sectionMargin: {
     marginTop: 16,
   },
-  lyricsText: {
+  lyricsReader: {
+    backgroundColor: COLORS.background,
+    padding: 12,
+    borderRadius: 8,
+  },
+  lyricRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 4,
+  },
+  lyricOriginal: {
+    flex: 1,
     fontSize: 14,
     color: COLORS.text,
     lineHeight: 22,
-    backgroundColor: COLORS.background,
-    padding: 12,
+  },
+  lyricTranslated: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    lineHeight: 22,
+    fontStyle: 'italic',
+  },
+  highlight: {
+    color: COLORS.primary,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  highlightActive: {
+    backgroundColor: COLORS.surfaceLight,
+  },
+  wordCard: {
+    backgroundColor: COLORS.surfaceLight,
     borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+    gap: 4,
+  },
+  wordCardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  wordLevel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.textSecondary,
+  },
+  wordCardMeaning: {
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  wordCardExample: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  wordCardExampleZh: {
+    fontSize: 13,
+    color: COLORS.textMuted,
   },
   wordItem: {
     flexDirection: 'row',
@@ -369,10 +784,82 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: COLORS.primary,
   },
+  wordInfo: {
+    flex: 1,
+    alignItems: 'flex-end',
+    marginLeft: 12,
+  },
   wordMeaning: {
     fontSize: 14,
     color: COLORS.textSecondary,
   },
+  wordProvenance: {
+    fontSize: 11,
+    color: COLORS.textMuted,
+    marginTop: 2,
+  },
+  reprocessPanel: {
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: COLORS.background,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  chipText: {
+    color: COLORS.textSecondary,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+  reprocessStartButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+  },
+  reprocessProgress: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  reprocessProgressText: {
+    flex: 1,
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+  cancelText: {
+    color: COLORS.error,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  ankiButton: {
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  ankiButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   deleteSongButton: {
     backgroundColor: COLORS.error,
     borderRadius: 12,
@@ -14,8 +14,9 @@ import { COLORS } from '../constants';
 import { useAppStore } from '../store';
 import { Word } from '../types';
 import { generatePracticeSentence, evaluateAnswer, generateTranslateQuestion, evaluateTranslation } from '../services/gemini';
+import { getDueWords, scoreToGrade } from '../services/srs';
 
-type WordRange = 'all' | 'learning' | 'mastered';
+type WordRange = 'due' | 'all' | 'learning' | 'mastered';
 type PracticeMode = '4choice' | 'fill' | 'translate';
 type PracticeStep = 'select' | 'practice';
 
@@ -35,7 +36,7 @@ interface PracticeScreenProps {
 }
 
 export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) => {
-  const { words, settings, addWrongAnswer } = useAppStore();
+  const { words, settings, addWrongAnswer, reviewWord } = useAppStore();
   
   const [wordRange, setWordRange] = useState<WordRange>('all');
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('fill');
@@ -54,6 +55,7 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
   const [options, setOptions] = useState<string[]>([]);
 
   const wordRangeOptions: { value: WordRange; label: string }[] = [
+    { value: 'due', label: 'Due today' },
     { value: 'all', label: 'All' },
     { value: 'learning', label: 'Studying' },
     { value: 'mastered', label: 'Mastered' },
@@ -67,7 +69,9 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
 
   const getAvailableWords = (): Word[] => {
     let available = [...words];
-    if (wordRange === 'mastered') {
+    if (wordRange === 'due') {
+      available = getDueWords(available);
+    } else if (wordRange === 'mastered') {
       available = available.filter(w => w.isMastered);
     } else if (wordRange === 'learning') {
       available = available.filter(w => !w.isMastered);
@@ -100,7 +104,8 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
       return;
     }
 
-    const shuffled = [...availableWords].sort(() => Math.random() - 0.5).slice(0, maxQuestions);
+    const ordered = wordRange === 'due' ? availableWords : [...availableWords].sort(() => Math.random() - 0.5);
+    const shuffled = ordered.slice(0, maxQuestions);
     setPracticeWords(shuffled);
     setPracticeIndex(0);
     setPracticeScore(0);
@@ -162,6 +167,7 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
       feedback: isCorrect ? 'Correct!' : `The answer is "${currentWord.word}"`
     };
     setPracticeResult(result);
+    reviewWord(currentWord.id, scoreToGrade(result.score, isCorrect));
     
     if (isCorrect) {
       setPracticeScore(prev => prev + 1);
@@ -206,6 +212,7 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
         }
         result = evalResult;
         setPracticeResult(result);
+        reviewWord(currentWord.id, scoreToGrade(result.score, result.isCorrect));
         if (result.isCorrect || result.score >= 70) {
           setPracticeScore(prev => prev + 1);
         } else {
@@ -241,6 +248,7 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
         }
         result = evalResult;
         setPracticeResult(result);
+        reviewWord(currentWord.id, scoreToGrade(result.score, result.isCorrect));
         if (result.isCorrect || result.score >= 70) {
           setPracticeScore(prev => prev + 1);
         } else {
@@ -268,6 +276,7 @@ export const PracticeScreen: React.FC<PracticeScreenProps> = ({ navigation }) =>
         score: isCorrect ? 100 : 0,
         feedback: isCorrect ? 'Correct!' : 'Wrong'
       });
+      reviewWord(currentWord.id, scoreToGrade(isCorrect ? 100 : 0, isCorrect));
       if (isCorrect) setPracticeScore(prev => prev + 1);
     } finally {
       setIsEvaluating(false);
@@ -15,12 +15,14 @@ import {
 } from 'react-native';
 import { COLORS } from '../constants';
 import { useAppStore } from '../store';
-import { StorageService } from '../services/storage';
 import { Word, Source } from '../types';
 import { generatePracticeSentence, evaluateAnswer, generateTranslateQuestion, evaluateTranslation } from '../services/gemini';
+import { getDueWords, scoreToGrade } from '../services/srs';
+import { exportAnkiDeck } from '../services/anki';
+import { formatLyricTime } from '../services/lyricFile';
 
 type SortMode = 'order' | 'song' | 'created';
-type FilterMode = 'all' | 'learning' | 'mastered';
+type FilterMode = 'all' | 'due' | 'learning' | 'mastered';
 type TreasuryStep = 'list' | 'practice';
 
 interface TreasuryScreenProps {
@@ -28,7 +30,7 @@ interface TreasuryScreenProps {
 }
 
 export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) => {
-  const { words, sources, getSourcesForWord, updateWord, settings, addWrongAnswer } = useAppStore();
+  const { words, sources, songs, getSourcesForWord, updateWord, reviewWord, removeWords, settings, addWrongAnswer } = useAppStore();
   const flatListRef = useRef<FlatList<Word>>(null);
   const [selectedWord, setSelectedWord] = useState<Word | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
@@ -69,7 +71,9 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
   const sortedWords = useMemo(() => {
     let sorted = [...words];
     
-    if (filterMode === 'mastered') {
+    if (filterMode === 'due') {
+      sorted = getDueWords(sorted);
+    } else if (filterMode === 'mastered') {
       sorted = sorted.filter(w => w.isMastered);
     } else if (filterMode === 'learning') {
       sorted = sorted.filter(w => !w.isMastered);
@@ -80,21 +84,22 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
     } else if (sortMode === 'created') {
       sorted = sorted.sort((a, b) => b.createdAt - a.createdAt);
     } else if (sortMode === 'song') {
-      sorted = sorted.sort((a, b) => {
-        const sourcesA = sources.filter(s => s.wordId === a.id);
-        const sourcesB = sources.filter(s => s.wordId === b.id);
-        const songA = sourcesA[0]?.songTitle || '';
-        const songB = sourcesB[0]?.songTitle || '';
-        return songA.localeCompare(songB);
-      });
+      const songKey = (wordId: string) => {
+        const source = sources.find(s => s.wordId === wordId);
+        const song = songs.find(s => s.id === source?.songId);
+        return song ? `${song.title}\u0000${song.id}` : '';
+      };
+      sorted = sorted.sort((a, b) => songKey(a.id).localeCompare(songKey(b.id)));
     }
     return sorted;
-  }, [words, sources, sortMode, filterMode]);
+  }, [words, sources, songs, sortMode, filterMode]);
 
   const startPractice = (mode: '4choice' | 'fill' | 'translate') => {
     let availableWords = [...words];
     
-    if (filterMode === 'mastered') {
+    if (filterMode === 'due') {
+      availableWords = getDueWords(availableWords);
+    } else if (filterMode === 'mastered') {
       availableWords = availableWords.filter(w => w.isMastered);
     } else if (filterMode === 'learning') {
       availableWords = availableWords.filter(w => !w.isMastered);
@@ -105,7 +110,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
       return;
     }
     setPracticeMode(mode);
-    const shuffled = [...availableWords].sort(() => Math.random() - 0.5);
+    const shuffled = filterMode === 'due' ? availableWords : [...availableWords].sort(() => Math.random() - 0.5);
     setPracticeWords(shuffled);
     setPracticeIndex(0);
     setPracticeScore(0);
@@ -150,11 +155,11 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
       if (practiceMode === 'translate' && translateQuestion) {
         result = await evaluateTranslation(
           userAnswer.trim(),
-          translateQuestion.word,
           translateQuestion.sentenceZh,
           settings
         );
         setPracticeResult(result);
+        reviewWord(currentWord.id, scoreToGrade(result.score, result.isCorrect));
         if (result.isCorrect || result.score >= 70) {
           setPracticeScore(practiceScore + 1);
         } else {
@@ -184,6 +189,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           settings
         );
         setPracticeResult(result);
+        reviewWord(currentWord.id, scoreToGrade(result.score, result.isCorrect));
         if (result.isCorrect || result.score >= 70) {
           setPracticeScore(practiceScore + 1);
         } else {
@@ -211,6 +217,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           feedback: isCorrect ? 'Correct!' : `The answer is "${currentWord.word}"`
         };
         setPracticeResult(result);
+        reviewWord(currentWord.id, scoreToGrade(result.score, isCorrect));
         if (isCorrect) {
           setPracticeScore(practiceScore + 1);
         } else {
@@ -238,6 +245,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
         score: isCorrect ? 100 : 0,
         feedback: isCorrect ? 'Correct!' : 'Wrong'
       });
+      reviewWord(currentWord.id, scoreToGrade(isCorrect ? 100 : 0, isCorrect));
       if (isCorrect) setPracticeScore(practiceScore + 1);
     } finally {
       setIsEvaluating(false);
@@ -274,13 +282,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const updatedWords = words.filter((w) => !selectedWords.includes(w.id));
-            await StorageService.saveWords(updatedWords);
-            
-            const updatedSources = sources.filter((s) => !selectedWords.includes(s.wordId));
-            await StorageService.saveSources(updatedSources);
-
-            useAppStore.setState({ words: updatedWords, sources: updatedSources });
+            await removeWords(selectedWords);
             setSelectedWords([]);
             setBatchMode(false);
           },
@@ -289,6 +291,16 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
     );
   };
 
+  const handleExportAnki = async () => {
+    if (selectedWords.length === 0) return;
+    try {
+      const selected = words.filter((w) => selectedWords.includes(w.id));
+      await exportAnkiDeck(selected, sources, songs, 'MelodyLingo');
+    } catch (error: any) {
+      Alert.alert('Export Failed', error?.message || 'Unknown error');
+    }
+  };
+
   const handleWordPress = (word: Word) => {
     if (batchMode) {
       toggleSelectWord(word.id);
@@ -332,10 +344,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const updatedWords = words.filter((w) => w.id !== wordId);
-            deleteWord(wordId);
-            const updatedSources = sources.filter((s) => s.wordId !== wordId);
-            setSources(updatedSources);
+            await removeWords([wordId]);
           },
         },
       ]
@@ -354,13 +363,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            const updatedWords = words.filter((w) => w.id !== selectedWord.id);
-            await StorageService.saveWords(updatedWords);
-            
-            const updatedSources = sources.filter((s) => s.wordId !== selectedWord.id);
-            await StorageService.saveSources(updatedSources);
-
-            useAppStore.setState({ words: updatedWords, sources: updatedSources });
+            await removeWords([selectedWord.id]);
             setModalVisible(false);
           },
         },
@@ -399,13 +402,21 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
     </TouchableOpacity>
   );
 
-  const renderSourceItem = (source: Source, index: number) => (
-    <View key={source.id} style={[styles.sourceCard, index > 0 && styles.sourceCardMargin]}>
-      <Text style={styles.sourceLyric}>"{source.lyricSentence}"</Text>
-      <Text style={styles.sourceTranslation}>{source.lyricSentenceEn}</Text>
-      <Text style={styles.sourceMeta}>— {source.songTitle}</Text>
-    </View>
-  );
+  const renderSourceItem = (source: Source, index: number) => {
+    const song = songs.find(s => s.id === source.songId);
+    return (
+      <View key={source.id} style={[styles.sourceCard, index > 0 && styles.sourceCardMargin]}>
+        <Text style={styles.sourceLyric}>"{source.lyricSentence}"</Text>
+        <Text style={styles.sourceTranslation}>
+          {song?.language === 'en' ? source.lyricTranslated : source.lyricSentenceEn}
+        </Text>
+        <Text style={styles.sourceMeta}>
+          — {song?.title || source.songTitle}
+          {source.lyricTime !== undefined ? ` · ${formatLyricTime(source.lyricTime)}` : ''}
+        </Text>
+      </View>
+    );
+  };
 
   if (treasuryStep === 'practice' && practiceWords.length > 0) {
     const currentWord = practiceWords[practiceIndex];
@@ -462,6 +473,7 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
                           score: isCorrect ? 100 : 0,
                           feedback: isCorrect ? 'Correct!' : `The answer is "${currentWord.word}"`
                         });
+                        reviewWord(currentWord.id, scoreToGrade(isCorrect ? 100 : 0, isCorrect));
                         if (isCorrect) {
                           setPracticeScore(practiceScore + 1);
                         }
@@ -572,6 +584,9 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
           <TouchableOpacity onPress={() => { setBatchMode(false); setSelectedWords([]); }}>
             <Text style={styles.cancelText}>Cancel</Text>
           </TouchableOpacity>
+          <TouchableOpacity onPress={handleExportAnki} disabled={selectedWords.length === 0}>
+            <Text style={styles.selectAllText}>📇 Anki</Text>
+          </TouchableOpacity>
           <TouchableOpacity onPress={() => setSelectedWords(words.map(w => w.id))}>
             <Text style={styles.selectAllText}>Select All</Text>
           </TouchableOpacity>
@@ -585,6 +600,12 @@ export const TreasuryScreen: React.FC<TreasuryScreenProps> = ({ navigation }) =>
         >
           <Text style={[styles.sortButtonText, filterMode === 'all' && styles.sortButtonTextActive]}>All</Text>
         </TouchableOpacity>
+        <TouchableOpacity 
+          style={[styles.sortButton, filterMode === 'due' && styles.sortButtonActive]}
+          onPress={() => setFilterMode('due')}
+        >
+          <Text style={[styles.sortButtonText, filterMode === 'due' && styles.sortButtonTextActive]}>Due</Text>
+        </TouchableOpacity>
         <TouchableOpacity 
           style={[styles.sortButton, filterMode === 'learning' && styles.sortButtonActive]}
           onPress={() => setFilterMode('learning')}
@@ -6,3 +6,4 @@ export { HistoryScreen } from './HistoryScreen';
 export { ReviewScreen } from './ReviewScreen';
 export { OthersScreen } from './OthersScreen';
 export { PracticeScreen } from './PracticeScreen';
+export { ExtractionReviewScreen } from './ExtractionReviewScreen';
@@ -1,114 +1,189 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { UserSettings } from '../types';
-
-const createNvidiaClient = (apiKey: string) => {
-  return new OpenAI({
-    baseURL: 'https://integrate.api.nvidia.com/v1',
-    apiKey: apiKey,
-  });
-};
-
-const createOpenCodeClient = (apiKey: string) => {
-  return new OpenAI({
-    baseURL: 'https://opencode.ai/zen/v1',
-    apiKey: apiKey,
-  });
-};
-
-const createGeminiClient = (apiKey: string) => {
-  return new GoogleGenerativeAI(apiKey);
-};
+import { UserSettings, ProviderModel, DEFAULT_SETTINGS } from '../types';
+import { getProvider, getProviderConfig } from './providers';
+import { ResponseSchema } from './schema';
 
 export interface AIResponse {
   text: string;
   error?: string;
+  /** 实际给出回答的服务商 id 和模型 */
+  provider?: string;
+  model?: string;
+  /** 调用方通过 signal 取消了请求 */
+  cancelled?: boolean;
 }
 
 export interface AIOptions {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  signal?: AbortSignal;
+  /** 单次请求超时，超时按可重试错误处理 */
+  timeoutMs?: number;
+  /** 提供时使用流式请求，参数为本次尝试目前收到的全部文本；重试时会从头开始 */
+  onText?: (text: string) => void;
+  /** 请求结构化 JSON 输出；模型不支持时自动退回普通文本请求 */
+  responseSchema?: ResponseSchema;
 }
 
-export const callAI = async (
-  prompt: string,
-  settings?: UserSettings,
-  options: AIOptions = {}
-): Promise<AIResponse> => {
-  const { temperature = 0.3, maxTokens = 4096, systemPrompt } = options;
-  const { apiProvider, geminiApiKey, nvidiaApiKey, opencodeApiKey, nvidiaModel, geminiModel, opencodeModel } = settings || {};
-
-  try {
-    if (!apiProvider || apiProvider === 'gemini') {
-      const apiKey = geminiApiKey || '';
-      const modelName = geminiModel || 'gemini-2.5-flash-lite';
+export const DEFAULT_TIMEOUT_MS = 120000;
+export const CANCELLED_ERROR = 'Request cancelled';
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 15000;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
 
-      const genAI = createGeminiClient(apiKey);
-      const model = genAI.getGenerativeModel({ model: modelName });
+/**
+ * 为单次请求创建 signal：调用方取消或超过 timeoutMs 时中止
+ */
+const withTimeout = async <T>(
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  // 已经取消的 signal 不会再触发 abort 事件
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
 
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+  try {
+    return await run(controller.signal);
+  } catch (error) {
+    if (timedOut) {
+      throw new Error(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
 
-      return { text: response };
-    } else if (apiProvider === 'nvidia') {
-      const apiKey = nvidiaApiKey || '';
-      const modelName = nvidiaModel || 'moonshotai/kimi-k2.5';
+/**
+ * 429、5xx 和网络超时可以重试；鉴权失败、参数错误等直接换下一个服务商
+ */
+export const isRetryableError = (error: any): boolean => {
+  const status = error?.status ?? error?.response?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  const text = `${error?.name || ''} ${error?.message || ''}`;
+  return /timeout|timed out|network|connection|fetch failed/i.test(text);
+};
 
-      if (!apiKey) {
-        return { text: '', error: 'NVIDIA API key is missing' };
-      }
+/**
+ * 模型或接口不支持结构化输出时通常返回 400，并在错误信息里提到相关参数
+ */
+const isSchemaUnsupportedError = (error: any): boolean => {
+  const status = error?.status ?? error?.response?.status;
+  return (
+    (status === 400 || status === 422) &&
+    /response_format|json_schema|responseSchema|response_schema|responseMimeType|JSON mode/i.test(error?.message || '')
+  );
+};
 
-      const client = createNvidiaClient(apiKey);
-
-      const messages = systemPrompt
-        ? [
-            { role: 'system' as const, content: systemPrompt },
-            { role: 'user' as const, content: prompt },
-          ]
-        : [{ role: 'user' as const, content: prompt }];
-
-      const completion = await client.chat.completions.create({
-        model: modelName,
-        messages,
-        temperature,
-        max_tokens: maxTokens,
-      });
-
-      const response = completion.choices[0]?.message?.content || '';
-      return { text: response };
-    } else if (apiProvider === 'opencode') {
-      const apiKey = opencodeApiKey || '';
-      const modelName = opencodeModel || 'big-pickle';
-
-      if (!apiKey) {
-        return { text: '', error: 'OpenCode API key is missing' };
-      }
+/**
+ * 指数退避加随机抖动，避免多个请求同时重试
+ */
+const getRetryDelay = (attempt: number) => {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+};
 
-      const client = createOpenCodeClient(apiKey);
+export const callAI = async (
+  prompt: string,
+  settings?: UserSettings,
+  options: AIOptions = {}
+): Promise<AIResponse> => {
+  const { temperature = 0.3, maxTokens = 4096, systemPrompt, signal, timeoutMs = DEFAULT_TIMEOUT_MS, onText, responseSchema } = options;
+  const maxRetries = settings?.maxRetries ?? DEFAULT_SETTINGS.maxRetries;
+
+  const primary = getProvider(settings?.apiProvider, settings);
+  const chain: ProviderModel[] = [
+    ...(primary ? [{ provider: primary.id, model: getProviderConfig(primary, settings).model }] : []),
+    ...(settings?.fallbacks || []),
+  ];
+  if (chain.length === 0) {
+    return { text: '', error: 'Unknown API provider' };
+  }
 
-      const messages = systemPrompt
-        ? [
-            { role: 'system' as const, content: systemPrompt },
-            { role: 'user' as const, content: prompt },
-          ]
-        : [{ role: 'user' as const, content: prompt }];
+  let lastError = '';
+  for (const { provider: providerId, model } of chain) {
+    if (signal?.aborted) break;
+    const provider = getProvider(providerId, settings);
+    if (!provider) {
+      lastError = `Unknown API provider: ${providerId}`;
+      continue;
+    }
 
-      const completion = await client.chat.completions.create({
-        model: modelName,
-        messages,
-        temperature,
-        max_tokens: maxTokens,
-      });
+    const { apiKey } = getProviderConfig(provider, settings);
+    if (provider.keyField.required && !apiKey) {
+      lastError = `${provider.name} API key is missing`;
+      continue;
+    }
 
-      const response = completion.choices[0]?.message?.content || '';
-      return { text: response };
+    let schema = responseSchema;
+    for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      if (signal?.aborted) break;
+      try {
+        let streamed = '';
+        const onDelta = onText
+          ? (delta: string) => {
+              streamed += delta;
+              onText(streamed);
+            }
+          : undefined;
+        const text = await withTimeout(timeoutMs, signal, (requestSignal) =>
+          provider.complete({
+            apiKey,
+            model,
+            prompt,
+            systemPrompt,
+            temperature,
+            maxTokens,
+            signal: requestSignal,
+            onDelta,
+            responseSchema: schema,
+          })
+        );
+        return { text, provider: provider.id, model };
+      } catch (error: any) {
+        if (signal?.aborted) break;
+        if (schema && isSchemaUnsupportedError(error)) {
+          // 模型不支持结构化输出：去掉 schema 立即重试，不计入重试次数
+          schema = undefined;
+          attempt--;
+          continue;
+        }
+        console.error(`AI API error (${provider.name} ${model}, attempt ${attempt + 1}):`, error);
+        lastError = `API请求失败: ${error?.message || error?.toString() || 'Unknown error'}`;
+        if (!isRetryableError(error) || attempt === maxRetries) break;
+        await sleep(getRetryDelay(attempt), signal);
+        if (signal?.aborted) break;
+      }
     }
+  }
 
-    return { text: '', error: 'Unknown API provider' };
-  } catch (error: any) {
-    console.error('AI API error:', error);
-    const errorMessage = error?.message || error?.toString() || 'Unknown error';
-    return { text: '', error: `API请求失败: ${errorMessage}` };
+  if (signal?.aborted) {
+    return { text: '', error: CANCELLED_ERROR, cancelled: true };
   }
+  return { text: '', error: lastError };
 };
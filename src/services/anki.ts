@@ -0,0 +1,103 @@
+import { Word, Source, Song } from '../types';
+import { shareTextFile } from './fileTransfer';
+
+/**
+ * 导入 Anki 时使用的笔记类型。需在 Anki 中创建同名的“填空题”笔记类型，
+ * 字段顺序与下面一致，Lyric 为填空字段
+ */
+export const ANKI_NOTE_TYPE = {
+  name: 'MelodyLingo Cloze',
+  fields: ['Lyric', 'Word', 'Meaning', 'Level', 'LyricEn', 'Example', 'ExampleZh', 'Song'],
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const escapeField = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\t\r\n]+/g, ' ')
+    .trim();
+
+const toTag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+const cloze = (sentence: string, target: string, index: number): string | null => {
+  if (!target || !sentence.includes(target)) return null;
+  return escapeField(sentence).replace(
+    new RegExp(escapeRegExp(escapeField(target))),
+    (match) => `{{c${index}::${match}}}`
+  );
+};
+
+/**
+ * 把一个单词转换为一行 Anki 笔记。每条歌词来源生成一个填空（c1、c2…），
+ * 没有可用歌词时退回到例句中的单词
+ */
+const buildNoteRow = (word: Word, wordSources: Source[], songs: Song[]): string => {
+  const lyricLines: string[] = [];
+  const lyricEnLines: string[] = [];
+  for (const source of wordSources) {
+    const line = cloze(source.lyricSentence, source.replaceWord, lyricLines.length + 1);
+    if (line) {
+      lyricLines.push(line);
+      lyricEnLines.push(escapeField(source.lyricSentenceEn));
+    }
+  }
+
+  if (lyricLines.length === 0) {
+    const example = word.example || '';
+    const exampleMatch = example.match(new RegExp(escapeRegExp(word.word), 'i'));
+    lyricLines.push(
+      exampleMatch ? cloze(example, exampleMatch[0], 1)! : `{{c1::${escapeField(word.word)}}}`
+    );
+  }
+
+  const songTitles = [
+    ...new Set(
+      wordSources.map((s) => songs.find((song) => song.id === s.songId)?.title || s.songTitle).filter(Boolean)
+    ),
+  ];
+
+  const fields = [
+    lyricLines.join('<br>'),
+    escapeField(word.word),
+    escapeField(word.meaning),
+    escapeField(word.level),
+    lyricEnLines.join('<br>'),
+    escapeField(word.example || ''),
+    escapeField(word.exampleZh || ''),
+    songTitles.map(escapeField).join(' / '),
+  ];
+  const tags = ['MelodyLingo', word.level, ...songTitles].filter(Boolean).map(toTag).join(' ');
+
+  return [...fields, tags].join('\t');
+};
+
+export const buildAnkiTsv = (words: Word[], sources: Source[], songs: Song[], deckName: string): string => {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    `#notetype:${ANKI_NOTE_TYPE.name}`,
+    `#deck:${deckName}`,
+    `#columns:${[...ANKI_NOTE_TYPE.fields, 'Tags'].join('\t')}`,
+    `#tags column:${ANKI_NOTE_TYPE.fields.length + 1}`,
+  ];
+  const rows = words.map((word) =>
+    buildNoteRow(word, sources.filter((s) => s.wordId === word.id), songs)
+  );
+  return [...header, ...rows].join('\n') + '\n';
+};
+
+export const exportAnkiDeck = async (
+  words: Word[],
+  sources: Source[],
+  songs: Song[],
+  deckName: string
+): Promise<void> => {
+  if (words.length === 0) {
+    throw new Error('No words to export');
+  }
+  const fileName = `${deckName.replace(/[\\/:*?"<>|]+/g, '_')}.txt`;
+  await shareTextFile(fileName, buildAnkiTsv(words, sources, songs, deckName), 'text/tab-separated-values');
+};
@@ -0,0 +1,199 @@
+import { LibraryBackup, LibraryData, UserSettings, UserStats, Word, Source, Song, BlacklistItem, WrongAnswer } from '../types';
+import { shareTextFile, pickTextFile } from './fileTransfer';
+import { normalizeSettings } from './settings';
+import { isJsonObject } from './jsonRepair';
+import { getLanguage } from './languages';
+
+export const BACKUP_VERSION = 1;
+
+const SECRET_SETTING_KEYS: (keyof UserSettings)[] = ['apiKeys'];
+
+/**
+ * 去掉 API key；自定义接口的请求头可能带有鉴权信息，也一并清空
+ */
+export const stripSecrets = (settings: Partial<UserSettings>): Partial<UserSettings> => {
+  const publicSettings: Partial<UserSettings> = { ...settings };
+  for (const key of SECRET_SETTING_KEYS) {
+    delete publicSettings[key];
+  }
+  if (Array.isArray(publicSettings.customEndpoints)) {
+    publicSettings.customEndpoints = publicSettings.customEndpoints.map((e) => ({ ...e, headers: {} }));
+  }
+  return publicSettings;
+};
+
+export const createBackup = (
+  library: LibraryData,
+  stats: UserStats,
+  settings: UserSettings
+): LibraryBackup => ({
+  format: 'melodylingo-backup',
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  words: library.words,
+  sources: library.sources,
+  songs: library.songs,
+  blacklist: library.blacklist,
+  wrongAnswers: library.wrongAnswers,
+  stats,
+  settings: stripSecrets(settings),
+});
+
+const WRONG_ANSWER_TYPES: WrongAnswer['errorType'][] = ['4choice', 'fill', 'translate'];
+const SONG_STATUSES: Song['status'][] = ['pending', 'processing', 'completed', 'failed'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNonEmptyString = (value: unknown): value is string => isString(value) && value.trim().length > 0;
+
+const hasId = (value: unknown): value is Record<string, unknown> & { id: string } =>
+  isJsonObject(value) && isNonEmptyString(value.id);
+
+// 只检查界面和数据库必需的字段，其余字段写入时有默认值
+const isWord = (value: unknown): value is Word => hasId(value) && isNonEmptyString(value.word) && isString(value.meaning);
+
+const isSource = (value: unknown): value is Source =>
+  hasId(value) && isNonEmptyString(value.wordId) && isString(value.lyricSentence);
+
+const isSong = (value: unknown): value is Song => hasId(value) && isString(value.title) && isString(value.lyrics);
+
+const isBlacklistItem = (value: unknown): value is BlacklistItem => hasId(value) && isNonEmptyString(value.word);
+
+const isWrongAnswer = (value: unknown): value is WrongAnswer =>
+  hasId(value) &&
+  isNonEmptyString(value.wordId) &&
+  isString(value.word) &&
+  WRONG_ANSWER_TYPES.includes(value.errorType as WrongAnswer['errorType']);
+
+const isUserStats = (value: unknown): value is UserStats =>
+  isJsonObject(value) &&
+  typeof value.totalWords === 'number' &&
+  typeof value.masteredWords === 'number' &&
+  typeof value.streakDays === 'number' &&
+  (value.lastPracticeDate === null || typeof value.lastPracticeDate === 'number');
+
+const normalizeSong = (song: Song): Song => ({
+  ...song,
+  // 旧版本把中文歌曲存成 'en'，与数据库迁移 v4 一致地改回 'zh'
+  language: song.language === 'en' && /[\u4e00-\u9fff]/.test(song.lyrics) ? 'zh' : getLanguage(song.language).id,
+  status: SONG_STATUSES.includes(song.status) ? song.status : 'completed',
+});
+
+export interface BackupParseResult {
+  backup: LibraryBackup;
+  /** 被跳过的无效记录，例如 "2 songs" */
+  skipped: string[];
+}
+
+/**
+ * 校验并解析备份文件，格式不对时抛出带说明的错误；单条记录无效时跳过并记入 skipped
+ */
+export const parseBackup = (text: string): BackupParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isJsonObject(data) || data.format !== 'melodylingo-backup') {
+    throw new Error('The file is not a MelodyLingo backup');
+  }
+  if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${data.version} is not supported by this app`);
+  }
+
+  const skipped: string[] = [];
+  const list = <T>(value: unknown, isValid: (item: unknown) => item is T, label: string): T[] => {
+    const items = Array.isArray(value) ? value : [];
+    const valid = items.filter(isValid);
+    if (valid.length < items.length) skipped.push(`${items.length - valid.length} ${label}`);
+    return valid;
+  };
+
+  if (data.stats !== undefined && !isUserStats(data.stats)) skipped.push('stats');
+  const settings = stripSecrets(normalizeSettings(isJsonObject(data.settings) ? data.settings : {}));
+
+  // 来源和错题必须指向备份里有效的单词
+  const words = list(data.words, isWord, 'words');
+  const wordIds = new Set(words.map((w) => w.id));
+  const backup: LibraryBackup = {
+    format: 'melodylingo-backup',
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'number' ? data.exportedAt : 0,
+    words,
+    sources: list(data.sources, (item): item is Source => isSource(item) && wordIds.has(item.wordId), 'sources'),
+    songs: list(data.songs, isSong, 'songs').map(normalizeSong),
+    blacklist: list(data.blacklist, isBlacklistItem, 'blacklist items'),
+    wrongAnswers: list(
+      data.wrongAnswers,
+      (item): item is WrongAnswer => isWrongAnswer(item) && wordIds.has(item.wordId),
+      'wrong answers'
+    ),
+    ...(isUserStats(data.stats) ? { stats: data.stats } : {}),
+    settings,
+  };
+  return { backup, skipped };
+};
+
+/**
+ * 合并备份到当前词库，只返回需要新增的记录。
+ * 单词按小写 word 去重（与 Factory 相同），来源和错题的 wordId 会重新指向已有单词。
+ */
+export const mergeLibrary = (current: LibraryData, incoming: LibraryData): LibraryData => {
+  const wordIdMap = new Map<string, string>();
+  const wordsByText = new Map(current.words.map((w) => [w.word.toLowerCase(), w]));
+  const words: Word[] = [];
+  for (const word of incoming.words) {
+    const existing = wordsByText.get(word.word.toLowerCase());
+    if (existing) {
+      wordIdMap.set(word.id, existing.id);
+    } else {
+      wordIdMap.set(word.id, word.id);
+      wordsByText.set(word.word.toLowerCase(), word);
+      words.push(word);
+    }
+  }
+
+  const songIds = new Set(current.songs.map((s) => s.id));
+  const songs = incoming.songs.filter((s) => !songIds.has(s.id));
+
+  const allSources = [...current.sources];
+  const sources: Source[] = [];
+  for (const source of incoming.sources) {
+    const wordId = wordIdMap.get(source.wordId);
+    if (!wordId) continue;
+    const isDuplicate = allSources.some(
+      (s) => s.id === source.id || (s.wordId === wordId && s.lyricSentence === source.lyricSentence)
+    );
+    if (!isDuplicate) {
+      const remapped = { ...source, wordId };
+      allSources.push(remapped);
+      sources.push(remapped);
+    }
+  }
+
+  const blacklistWords = new Set(current.blacklist.map((b) => b.word.toLowerCase()));
+  const blacklist = incoming.blacklist.filter((b) => {
+    const word = b.word.toLowerCase();
+    if (blacklistWords.has(word)) return false;
+    blacklistWords.add(word);
+    return true;
+  });
+
+  const wrongAnswerIds = new Set(current.wrongAnswers.map((w) => w.id));
+  const wrongAnswers = incoming.wrongAnswers
+    .filter((w) => !wrongAnswerIds.has(w.id) && wordIdMap.has(w.wordId))
+    .map((w) => ({ ...w, wordId: wordIdMap.get(w.wordId)! }));
+
+  return { words, sources, songs, blacklist, wrongAnswers };
+};
+
+export const exportBackupFile = async (backup: LibraryBackup): Promise<void> => {
+  const date = new Date(backup.exportedAt).toISOString().slice(0, 10);
+  await shareTextFile(`melodylingo-backup-${date}.json`, JSON.stringify(backup, null, 2), 'application/json');
+};
+
+export const pickBackupFile = async (): Promise<BackupParseResult | null> => {
+  const file = await pickTextFile('application/json');
+  return file ? parseBackup(file.text) : null;
+};
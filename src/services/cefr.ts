@@ -0,0 +1,72 @@
+import { CEFR_WORDS } from '../constants/cefrWords';
+import { ExtractedWord, RejectedItem } from '../types';
+import { getBaseForms, getIrregularBaseForms } from './lemmatizer';
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const ADVANCED_LEVELS = ['B2', 'C1', 'C2'];
+
+let wordLevels: Map<string, string> | null = null;
+
+/** 词表第一次使用时展开成 Map，同一个词取最低级别 */
+const getWordLevels = () => {
+  if (!wordLevels) {
+    wordLevels = new Map();
+    for (const level of CEFR_LEVELS) {
+      for (const word of CEFR_WORDS[level].split(/\s+/)) {
+        if (word && !wordLevels.has(word)) wordLevels.set(word, level);
+      }
+    }
+  }
+  return wordLevels;
+};
+
+/**
+ * 查询单词的 CEFR 级别，词表里没有原词时再按不规则变化和猜出的原形查找。
+ * 猜出的原形可能是无关的常见词（severed → severe），只在它是 B2 及以上时采用，
+ * 不会因此把单词当作常见词丢弃。词组和词表外的单词返回 null
+ */
+export const lookupCefrLevel = (word: string): string | null => {
+  const key = word.toLowerCase().trim();
+  if (!key || /[\s-]/.test(key)) return null;
+
+  const levels = getWordLevels();
+  for (const form of [key, ...getIrregularBaseForms(key)]) {
+    const level = levels.get(form);
+    if (level) return level;
+  }
+  for (const form of getBaseForms(key)) {
+    const level = levels.get(form);
+    if (level && isAdvancedLevel(level)) return level;
+  }
+  return null;
+};
+
+export const isAdvancedLevel = (level: string) => ADVANCED_LEVELS.includes(level);
+
+/**
+ * 用内置词表核对模型给出的级别：A1–B1 的常见词直接丢弃，B2 及以上以词表为准。
+ * 词表里查不到的单词保留模型的级别
+ */
+export const applyCefrLevels = (
+  items: ExtractedWord[]
+): { words: ExtractedWord[]; rejected: RejectedItem[]; corrected: number } => {
+  const words: ExtractedWord[] = [];
+  const rejected: RejectedItem[] = [];
+  let corrected = 0;
+
+  items.forEach((item, index) => {
+    const level = lookupCefrLevel(item.word);
+    if (!level) {
+      words.push(item);
+    } else if (!isAdvancedLevel(level)) {
+      rejected.push({ index, word: item.word, reason: `"${item.word}" is a ${level} word` });
+    } else if (level !== item.level) {
+      corrected++;
+      words.push({ ...item, level });
+    } else {
+      words.push(item);
+    }
+  });
+
+  return { words, rejected, corrected };
+};
@@ -0,0 +1,76 @@
+import { ExtractedWord } from '../types';
+
+/** 每个分块的歌词 token 预算；模型还要输出译文和 JSON，所以留得比较保守 */
+export const CHUNK_TOKEN_BUDGET = 600;
+/** 同时进行的提取请求数 */
+export const EXTRACTION_CONCURRENCY = 2;
+
+/**
+ * 粗略估计 token 数：中日韩字符按 1 个计，其余按 4 个字符 1 个计
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[぀-ヿ㐀-鿿가-힯]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+/**
+ * 按行把歌词切成若干块，每块不超过 budget；单行超出预算时单独成块，不会从行中间切开
+ */
+export const chunkLyricLines = (lines: string[], budget = CHUNK_TOKEN_BUDGET): string[][] => {
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let used = 0;
+
+  for (const line of lines) {
+    const tokens = estimateTokens(line) + 1;
+    if (current.length > 0 && used + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(line);
+    used += tokens;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+/**
+ * 以最多 limit 个并发依次处理 items，结果按原顺序返回。signal 中止后不再启动新的任务
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+};
+
+/**
+ * 把模型返回的 sentence 对齐到分块里的原始歌词行（模型可能合并、截短或改动标点），
+ * 这样来源记录的是歌词中真实存在的那一行。找不到对应行时保持不变
+ */
+export const alignToLyricLine = (item: ExtractedWord, lines: string[]): ExtractedWord => {
+  const sentence = item.sentence.trim();
+  if (lines.includes(sentence)) return item;
+
+  const normalize = (text: string) => text.replace(/[\s,.!?;:'"，。！？；：、“”‘’…—()（）-]/g, '');
+  const target = normalize(sentence);
+  const line =
+    lines.find((l) => normalize(l) === target) ||
+    lines.find((l) => target && (normalize(l).includes(target) || target.includes(normalize(l))) && l.includes(item.replaceWord)) ||
+    lines.find((l) => item.replaceWord && l.includes(item.replaceWord));
+  return line ? { ...item, sentence: line } : item;
+};
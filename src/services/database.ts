@@ -0,0 +1,23 @@
+import * as SQLite from 'expo-sqlite';
+import { runMigrations } from './migrations';
+
+const DATABASE_NAME = 'melodylingo.db';
+
+let databasePromise: Promise<SQLite.SQLiteDatabase> | null = null;
+
+const openDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync('PRAGMA journal_mode = WAL;');
+  await runMigrations(db);
+  return db;
+};
+
+export const getDatabase = (): Promise<SQLite.SQLiteDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+};
@@ -0,0 +1,259 @@
+import { extractVocabulary, translateLyrics } from './gemini';
+import { getProvider } from './providers';
+import { verifyExtractedWords } from './verifier';
+import { applyCefrLevels } from './cefr';
+import { chunkLyricLines, mapWithConcurrency, alignToLyricLine, EXTRACTION_CONCURRENCY } from './chunking';
+import { isSameLemma } from './lemmatizer';
+import { getLanguage, mergeShortLines } from './languages';
+import { TimedLine, findLineTime } from './lyricFile';
+import { ExtractedWord, Source, SongLanguage, SongTranslation, UserSettings, Word, WordProvenance } from '../types';
+
+/** 导入队列中同时处理的歌曲数；每首歌内部还会并发提取多个分块 */
+export const IMPORT_QUEUE_CONCURRENCY = 2;
+
+export interface ExtractionInput {
+  title: string;
+  lyrics: string;
+  language: SongLanguage;
+}
+
+/** 进度回调每次只带有变化的字段 */
+export interface ExtractionProgress {
+  message?: string;
+  percent?: number;
+  /** 目前已完整返回的译文行 */
+  translationLines?: string[];
+  /** 各分块目前已解析出的条目总数 */
+  parsedCount?: number;
+}
+
+export interface ExtractionResult {
+  words: ExtractedWord[];
+  notes: string[];
+  translation?: SongTranslation;
+  provenance: WordProvenance;
+  error?: string;
+  /** 调用方通过 signal 取消了提取 */
+  cancelled?: boolean;
+}
+
+/**
+ * 完整的提取流程：合并短行 → 翻译（非英文歌曲）→ 分块提取 → 校验原句 → CEFR 过滤 → 按原形去重。
+ * 只返回结果，不写入词库
+ */
+export const extractSongWords = async (
+  { title, lyrics, language }: ExtractionInput,
+  blacklist: string[],
+  settings: UserSettings,
+  signal: AbortSignal,
+  onProgress: (progress: ExtractionProgress) => void = () => {}
+): Promise<ExtractionResult> => {
+  const provenance: WordProvenance = { style: settings.aiStyle, extractedAt: Date.now() };
+  const stop = (error?: string): ExtractionResult => ({
+    words: [],
+    notes: [],
+    provenance,
+    ...(error ? { error } : { cancelled: true }),
+  });
+
+  const lines = lyrics.split('\n').filter((line) => line.trim());
+  const mergedLines = mergeShortLines(lines.map((line) => line.trim()), language);
+  const uniqueLyrics = [...new Set(mergedLines)].join('\n');
+  const lyricLineCount = uniqueLyrics.split('\n').length;
+
+  // 英文歌词直接从原句提取，不需要先翻译
+  let translation: SongTranslation | undefined;
+  let translationError = '';
+  if (getLanguage(language).translate) {
+    onProgress({ message: 'AI is translating lyrics...' });
+    const translated = await translateLyrics(uniqueLyrics, settings.aiStyle, settings, signal, (partial) => {
+      // 只显示已经完整返回的行
+      const completeLines = partial.split('\n').slice(0, -1).filter((line) => line.trim());
+      onProgress({
+        translationLines: completeLines,
+        percent: 5 + Math.min(30, Math.round((completeLines.length / lyricLineCount) * 30)),
+      });
+    });
+    if (signal.aborted) return stop();
+
+    // 整首译文只用于对照阅读，提取仍然基于原句；翻译失败时不保存译文，继续提取
+    if (translated.error) {
+      translationError = translated.error;
+    } else {
+      const translatedLines = translated.text.split('\n').map((line) => line.trim()).filter(Boolean);
+      onProgress({ translationLines: translatedLines });
+      // 按行号对齐；模型少返回的行留空
+      translation = {
+        style: settings.aiStyle,
+        lines: uniqueLyrics.split('\n').map((original, index) => ({ original, translated: translatedLines[index] || '' })),
+      };
+    }
+  }
+  onProgress({ percent: 35 });
+
+  const allWords: ExtractedWord[] = [];
+  let rejectedCount = 0;
+  let unverifiedCount = 0;
+  let commonCount = 0;
+  let correctedLevelCount = 0;
+  let recoveredCount = 0;
+  let estimatedCount = 0;
+  let failedChunks = 0;
+  let lastError = '';
+
+  // 长歌词按行分块，每块单独提取，结果按原形去重
+  const chunks = chunkLyricLines(uniqueLyrics.split('\n'));
+  const parsedPerChunk = chunks.map(() => 0);
+  let finishedChunks = 0;
+  onProgress({ message: `AI is extracting words... (0/${chunks.length})` });
+
+  await mapWithConcurrency(chunks, EXTRACTION_CONCURRENCY, async (chunkLines, chunkIndex) => {
+    const result = await extractVocabulary(
+      chunkLines.join('\n'),
+      title,
+      language,
+      blacklist,
+      settings,
+      signal,
+      (count) => {
+        parsedPerChunk[chunkIndex] = count;
+        onProgress({ parsedCount: parsedPerChunk.reduce((sum, n) => sum + n, 0) });
+      }
+    );
+    finishedChunks++;
+    onProgress({
+      message: `AI is extracting words... (${finishedChunks}/${chunks.length})`,
+      percent: 35 + Math.floor((finishedChunks / chunks.length) * 60),
+    });
+    if (signal.aborted) return;
+
+    if (result.error) {
+      failedChunks++;
+      lastError = result.error;
+      return;
+    }
+
+    rejectedCount += result.rejected?.length || 0;
+    if (result.diagnostics?.truncated) {
+      recoveredCount += result.diagnostics.recovered;
+      estimatedCount += result.diagnostics.estimated;
+    }
+
+    if (result.provider) {
+      provenance.provider = result.provider;
+      provenance.model = result.model;
+    }
+
+    // 单词或对应中文不在歌词里的条目在保存前丢弃
+    const verified = verifyExtractedWords(result.words.map((w) => alignToLyricLine(w, chunkLines)), language);
+    unverifiedCount += verified.rejected.length;
+
+    // 常见词（A1–B1）丢弃，级别以内置词表为准
+    const leveled = applyCefrLevels(verified.words);
+    commonCount += leveled.rejected.length;
+    correctedLevelCount += leveled.corrected;
+
+    for (const w of leveled.words) {
+      if (!allWords.some((existing) => isSameLemma(existing.word, w.word))) {
+        allWords.push(w);
+      }
+    }
+  }, signal);
+  if (signal.aborted) return stop();
+  if (failedChunks === chunks.length) return stop(lastError);
+
+  onProgress({ percent: 100, message: `Found ${allWords.length} B2+ words` });
+
+  const answeredBy = provenance.provider
+    ? `${getProvider(provenance.provider, settings)?.name || provenance.provider} · ${provenance.model}`
+    : '';
+  const notes = [
+    estimatedCount > recoveredCount ? `Response was cut off: recovered ${recoveredCount} of ~${estimatedCount} items` : '',
+    rejectedCount > 0 ? `Dropped ${rejectedCount} malformed items` : '',
+    unverifiedCount > 0 ? `Dropped ${unverifiedCount} words not found in their lyric line` : '',
+    commonCount > 0 ? `Dropped ${commonCount} common (A1–B1) words` : '',
+    correctedLevelCount > 0 ? `Corrected the level of ${correctedLevelCount} words` : '',
+    failedChunks > 0 ? `${failedChunks} of ${chunks.length} parts failed: ${lastError}` : '',
+    translationError ? `Full translation was skipped: ${translationError}` : '',
+    answeredBy ? `Answered by ${answeredBy}` : '',
+  ].filter(Boolean);
+
+  return { words: allWords, notes, translation, provenance };
+};
+
+/** 提取结果写入哪首歌 */
+export interface EntryTarget {
+  songId: string;
+  songTitle: string;
+  artist: string;
+  language: SongLanguage;
+  timedLines: TimedLine[];
+  provenance: WordProvenance;
+}
+
+/**
+ * 把提取出的单词整理成要写入的单词和来源。词库里已有的单词只补充来源，
+ * 同一单词在同一行歌词已有来源时跳过
+ */
+export const buildLibraryEntries = (
+  extracted: ExtractedWord[],
+  target: EntryTarget,
+  existingWords: Word[],
+  existingSources: Source[]
+): { newWords: Word[]; newSources: Source[] } => {
+  const knownWords = [...existingWords];
+  const knownSources = [...existingSources];
+  const newWords: Word[] = [];
+  const newSources: Source[] = [];
+
+  for (const vocabWord of extracted) {
+    let wordId = knownWords.find((w) => w.word.toLowerCase() === vocabWord.word.toLowerCase())?.id;
+
+    if (!wordId) {
+      wordId = Date.now().toString() + Math.random();
+      const newWord: Word = {
+        id: wordId,
+        word: vocabWord.word,
+        meaning: vocabWord.meaning,
+        example: vocabWord.example,
+        exampleZh: vocabWord.exampleZh || '',
+        level: vocabWord.level || 'B2',
+        isMastered: false,
+        createdAt: Date.now(),
+      };
+      knownWords.push(newWord);
+      newWords.push(newWord);
+    } else if (knownSources.some((s) => s.wordId === wordId && s.lyricSentence === vocabWord.sentence)) {
+      continue;
+    }
+
+    const newSource: Source = {
+      id: Date.now().toString() + Math.random(),
+      wordId,
+      songId: target.songId,
+      songTitle: target.songTitle,
+      artist: target.artist,
+      lyricSentence: vocabWord.sentence || '',
+      lyricSentenceEn: vocabWord.sentenceEn || '',
+      // 英文歌曲记录整句的中文译文
+      lyricTranslated: target.language === 'en' ? vocabWord.sentenceZh || vocabWord.meaning : vocabWord.meaning,
+      replaceWord: vocabWord.replaceWord || '',
+      lyricTime: findLineTime(vocabWord.sentence, target.timedLines),
+      provenance: target.provenance,
+    };
+    knownSources.push(newSource);
+    newSources.push(newSource);
+  }
+  return { newWords, newSources };
+};
+
+/** 例如 "lyric · Google Gemini · gemini-2.5-flash · 10/18/2026" */
+export const formatProvenance = (provenance: WordProvenance, settings?: Partial<UserSettings>): string =>
+  [
+    provenance.style,
+    provenance.provider ? getProvider(provenance.provider, settings)?.name || provenance.provider : '',
+    provenance.model || '',
+    new Date(provenance.extractedAt).toLocaleDateString(),
+  ]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,38 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as DocumentPicker from 'expo-document-picker';
+
+/**
+ * 把文本写入缓存目录并调起系统分享面板
+ */
+export const shareTextFile = async (fileName: string, content: string, mimeType: string): Promise<void> => {
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+};
+
+/**
+ * 让用户选择一个文件并读取文本；用户取消时返回 null
+ */
+export const pickTextFile = async (type: string | string[]): Promise<{ name: string; text: string } | null> => {
+  const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  const text = await new File(asset.uri).text();
+  return { name: asset.name, text };
+};
+
+/**
+ * 让用户一次选择多个文件并读取文本；用户取消时返回空数组
+ */
+export const pickTextFiles = async (type: string | string[]): Promise<{ name: string; text: string }[]> => {
+  const result = await DocumentPicker.getDocumentAsync({ type, copyToCacheDirectory: true, multiple: true });
+  if (result.canceled) return [];
+  return Promise.all(result.assets.map(async (asset) => ({ name: asset.name, text: await new File(asset.uri).text() })));
+};
@@ -1,27 +1,35 @@
-import { UserSettings, AIStyle } from '../types';
+import { UserSettings, AIStyle, ExtractedWord, RejectedItem, SongLanguage } from '../types';
 import { callAI } from './aiClient';
+import { createJsonArrayStream } from './jsonStream';
+import { JsonSchema, ResponseSchema, validateSchema } from './schema';
+import { JsonDiagnostics, isJsonObject, parseJsonLenient, salvageJsonArray } from './jsonRepair';
+import { LanguageProfile, getLanguage } from './languages';
 
 const STYLE_PROMPTS: Record<AIStyle, string> = {
-  lyric: 'Translate the Chinese lyrics into English in a SONG LYRICS style - simple, natural, easy to understand. Use common B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid rare, archaic, or overly literary words. Use everyday English words that most learners would know.',
-  poetic: 'Translate the Chinese lyrics into English in a POETIC style - slightly more literary, but still accessible. Use B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid rare or archaic words.',
-  casual: 'Translate the Chinese lyrics into English in a CASUAL/CONVERSATIONAL style - simple, natural, everyday language. Use very common B1-B2 level vocabulary. PRIORITY: Accuracy first, then simplicity. Keep it simple and conversational.',
-  academic: 'Translate the Chinese lyrics into English in an ACADEMIC style - clear and precise, but not overly formal. Use B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid overly complex academic terminology.',
+  lyric: 'Translate the lyrics into English in a SONG LYRICS style - simple, natural, easy to understand. Use common B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid rare, archaic, or overly literary words. Use everyday English words that most learners would know.',
+  poetic: 'Translate the lyrics into English in a POETIC style - slightly more literary, but still accessible. Use B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid rare or archaic words.',
+  casual: 'Translate the lyrics into English in a CASUAL/CONVERSATIONAL style - simple, natural, everyday language. Use very common B1-B2 level vocabulary. PRIORITY: Accuracy first, then simplicity. Keep it simple and conversational.',
+  academic: 'Translate the lyrics into English in an ACADEMIC style - clear and precise, but not overly formal. Use B1-C1 level vocabulary. PRIORITY: Accuracy first, then simplicity. Avoid overly complex academic terminology.',
 };
 
-const getSystemPrompt = (aiStyle: AIStyle): string => {
+const getSystemPrompt = (aiStyle: AIStyle, language: LanguageProfile): string => {
   const stylePrompt = STYLE_PROMPTS[aiStyle];
+  const lyricLanguage = language.promptName;
+  // 中文、粤语的释义取原句中的对应词；其他语言按英文单词在句中的意思给中文释义
+  const meaningRule = language.meaningFromLyric
+    ? 'IMPORTANT - meaning must come from the lyric translation: Look at the Chinese translation of the lyric sentence, find the Chinese word/phrase that corresponds to the English word, and use THAT as the meaning. DO NOT use dictionary definitions - use the translation from the lyrics.'
+    : 'IMPORTANT - meaning must fit the lyric: give the Chinese meaning of the English word AS USED in the translated line, not a generic dictionary definition.';
   
   return `You are a B2+ English vocabulary extractor for language learners. 
 
-Analyze the provided lyrics (in Chinese) and do the following:
-1. First, translate the Chinese lyrics into accurate English (${stylePrompt}. Ensure GRAMMAR is CORRECT)
+Analyze the provided lyrics (in ${lyricLanguage}) and do the following:
+1. First, translate the ${lyricLanguage} lyrics into accurate English (${stylePrompt}. Ensure GRAMMAR is CORRECT)
 2. Then extract B2+ level English vocabulary that ACTUALLY EXIST in the translated English lyrics
 
 RULES:
 1. ONLY extract words that EXACTLY appear in the English translation - do NOT use synonyms or related words
 2. ONLY extract words that are TRUE B2 level or higher - these are advanced academic/literary words that are NOT common in daily conversation
-3. EXCLUDE all common words including: love, heart, day, night, good, bad, time, life, people, way, think, know, make, see, come, take, give, look, want, use, find, tell, say, ask, work, seem, feel, become, leave, call, need, may, should, could, would, will, can, this, that, these, those, am, is, are, was, were, be, been, being, have, has, had, do, does, did, but, or, and, if, then, so, because, when, where, how, what, who, which, not, no, all, any, some, every, each, both, few, more, most, other, such, only, own, same, than, too, very, just, also, now, still, yet, ever, never, always, sometimes, often, really, much, many, thing, things, something, anything, nothing, everything, someone, anyone, everyone, man, woman, men, women, child, children, money, place, world, head, face, eyes, hand, hands, feet, house, home, city, country, school, team, friend, family, mother, father, parent, parents, brother, sister, son, daughter, boy, girl, year, years, month, week, hour, minute, second, morning, afternoon, evening, tonight, today, tomorrow, yesterday, title, your, our, its, their, my, her, his, their, us, them, like, just, even, back, long, well, still, away, here, there, out, up, down, over, under, through, between, among, while, since, until, before, after, above, below, near, far, quick, fast, slow, early, late, high, low, deep, shallow, young, old, new, hard, soft, easy, difficult, strong, weak, hot, cold, warm, cool, rich, poor, clean, dirty, loud, quiet, busy, free, open, close, full, empty, happy, sad, angry, scared, tired, sick, healthy, alive, dead, alone, together, fast, slow, quick, soon, late, early, always, never, sometimes, often, again, once, twice, maybe, perhaps, probably, certainly, sure, maybe, actually, really, certainly, definitely, simply, only, even, still, yet
-4. WORD FORM - Strict rules:
+3. WORD FORM - Strict rules:
    - VERBS: Only extract INFINITIVE form (base form), NEVER extract past tense, past participle, present participle, or third-person singular
      - WRONG: "consumed", "consuming", "consumes" / RIGHT: "consume"
      - WRONG: "went", "gone", "going" / RIGHT: "go"
@@ -32,39 +40,165 @@ RULES:
      - WRONG: "better", "best" / RIGHT: "good"
      - WRONG: "worse", "worst" / RIGHT: "bad"
    - SAME ROOT: If you extract "drag", do NOT extract "dragging", "dragged", "drags" - only keep the base form
-5. IMPORTANT - meaning must come from the lyric translation: Look at the Chinese translation of the lyric sentence, find the Chinese word/phrase that corresponds to the English word, and use THAT as the meaning. DO NOT use dictionary definitions - use the translation from the lyrics.
-6. IMPORTANT - meaning format: Provide COMPLETE explanation, not just short translation. Format as "中文词:详细解释" (e.g., "永恒:指永恒的、没有终点的、持续到永远的性质或状态"). If multiple meanings, separate with " / " (e.g., "永恒:指永恒的、没有终点的 / 永远:指永远、持续到永恒")
-7. GRAMMAR MUST BE CORRECT:
+4. ${meaningRule}
+5. IMPORTANT - meaning format: Provide COMPLETE explanation, not just short translation. Format as "中文词:详细解释" (e.g., "永恒:指永恒的、没有终点的、持续到永远的性质或状态"). If multiple meanings, separate with " / " (e.g., "永恒:指永恒的、没有终点的 / 永远:指永远、持续到永恒")
+6. GRAMMAR MUST BE CORRECT:
    - English translation must be grammatically correct
    - Example sentences must be grammatically correct, complete English sentences
-8. For each word, provide:
+7. For each word, provide:
    - word: the EXACT word from the English lyrics (lowercase, BASE FORM ONLY)
    - pos: Part of speech (noun, verb, adjective, or adverb)
    - meaning: Detailed explanation in format "中文词:详细中文解释" (e.g., "永恒:指永恒的、没有终点的状态"). If multiple meanings exist, separate with " / "
    - level: CEFR level (B2, C1, or C2) - only if truly advanced word
-   - sentence: The COMPLETE Chinese lyric sentence (keep original, NO blanks)
+   - sentence: The COMPLETE ${lyricLanguage} lyric sentence, copied exactly from the lyrics (keep original, NO blanks)
    - sentenceEn: The COMPLETE English translation (grammatically correct, NO blanks)
-   - replaceWord: The EXACT Chinese word/phrase in the original sentence that corresponds to this English word (for identifying the word position)
+   - replaceWord: The EXACT ${lyricLanguage} word/phrase in the original sentence that corresponds to this English word, copied exactly as it appears in the line (for identifying the word position)
    - example: A grammatically correct, COMPLETE English sentence using the word (NOT from the lyrics, with NO blanks - full sentence only)
    - exampleZh: Chinese translation of the example sentence
-9. Return ONLY valid JSON array format
-10. Extract up to 20 unique B2+ level words maximum per request
+8. Return ONLY valid JSON array format
+9. Extract up to 20 unique B2+ level words maximum per request
 
 Return JSON in this exact format:
 [
-  {"word": "forever", "pos": "adverb", "meaning": "永远", "level": "B2", "sentence": "更怕你永远停留在这里", "sentenceEn": "I'm afraid you'll stay here forever", "replaceWord": "永远", "example": "She promised to love him forever.", "exampleZh": "她承诺永远爱他。"}
+  ${language.example}
 ]`;
 };
 
+/**
+ * 英文歌词不需要翻译，直接从原句提取，另外给出整句的中文译文
+ */
+const getEnglishSystemPrompt = (language: LanguageProfile): string => `You are a B2+ English vocabulary extractor for Chinese-speaking language learners.
+
+Analyze the provided lyrics (in English) and extract B2+ level English vocabulary that ACTUALLY APPEARS in the lyric lines. Do NOT translate or rewrite the lyrics.
+
+RULES:
+1. ONLY extract words that appear in the lyrics (in any inflected form) - do NOT use synonyms or related words
+2. ONLY extract words that are TRUE B2 level or higher - these are advanced academic/literary words that are NOT common in daily conversation
+3. WORD FORM: "word" must be the BASE FORM (infinitive verb, singular noun, base adjective). If the lyric says "lingered", word is "linger"
+4. IMPORTANT - meaning must fit the lyric: give the Chinese meaning of the word AS USED in the lyric line, formatted as "中文词:详细解释" (e.g., "停留:指迟迟不肯离开、在某处逗留"). If multiple meanings exist, separate with " / "
+5. Example sentences must be grammatically correct, complete English sentences
+6. For each word, provide:
+   - word: the word in BASE FORM (lowercase)
+   - pos: Part of speech (noun, verb, adjective, or adverb)
+   - meaning: Chinese meaning in format "中文词:详细中文解释"
+   - level: CEFR level (B2, C1, or C2) - only if truly advanced word
+   - sentence: The COMPLETE original English lyric line, copied exactly (NO blanks)
+   - sentenceEn: The same English lyric line as "sentence"
+   - sentenceZh: A natural Chinese translation of the lyric line
+   - replaceWord: The EXACT form of the word as it appears in the lyric line (e.g., "lingered")
+   - example: A grammatically correct, COMPLETE English sentence using the word (NOT from the lyrics, with NO blanks - full sentence only)
+   - exampleZh: Chinese translation of the example sentence
+7. Return ONLY valid JSON array format
+8. Extract up to 20 unique B2+ level words maximum per request
+
+Return JSON in this exact format:
+[
+  ${language.example}
+]`;
+
+const EXTRACTED_WORD_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    word: { type: 'string' },
+    pos: { type: 'string' },
+    meaning: { type: 'string' },
+    level: { type: 'string', enum: ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] },
+    sentence: { type: 'string' },
+    sentenceEn: { type: 'string' },
+    sentenceZh: { type: 'string' },
+    replaceWord: { type: 'string' },
+    example: { type: 'string' },
+    exampleZh: { type: 'string' },
+  },
+  required: ['word', 'meaning', 'level', 'sentence', 'sentenceEn', 'replaceWord'],
+};
+
+const VOCABULARY_RESPONSE: ResponseSchema = {
+  name: 'vocabulary',
+  schema: {
+    type: 'object',
+    properties: { words: { type: 'array', items: EXTRACTED_WORD_SCHEMA } },
+    required: ['words'],
+  },
+};
+
+const ANSWER_EVALUATION_RESPONSE: ResponseSchema = {
+  name: 'answer_evaluation',
+  schema: {
+    type: 'object',
+    properties: {
+      isCorrect: { type: 'boolean' },
+      score: { type: 'number' },
+      feedback: { type: 'string' },
+    },
+    required: ['isCorrect', 'score', 'feedback'],
+  },
+};
+
+const PRACTICE_SENTENCE_RESPONSE: ResponseSchema = {
+  name: 'practice_sentence',
+  schema: {
+    type: 'object',
+    properties: {
+      sentence: { type: 'string' },
+      sentenceZh: { type: 'string' },
+    },
+    required: ['sentence', 'sentenceZh'],
+  },
+};
+
+const TRANSLATE_QUESTION_RESPONSE: ResponseSchema = {
+  name: 'translate_question',
+  schema: {
+    type: 'object',
+    properties: {
+      word: { type: 'string' },
+      sentenceZh: { type: 'string' },
+    },
+    required: ['sentenceZh'],
+  },
+};
+
+/**
+ * 逐个校验提取结果，不合格的条目丢弃并记录原因
+ */
+const validateExtractedWords = (items: unknown[]): { words: ExtractedWord[]; rejected: RejectedItem[] } => {
+  const words: ExtractedWord[] = [];
+  const rejected: RejectedItem[] = [];
+  items.forEach((item, index) => {
+    const record = item && typeof item === 'object' ? (item as Record<string, unknown>) : {};
+    const candidate = typeof record.level === 'string' ? { ...record, level: record.level.trim().toUpperCase() } : item;
+    const reason = validateSchema(candidate, EXTRACTED_WORD_SCHEMA, 'item');
+    if (reason) {
+      rejected.push({ index, word: typeof record.word === 'string' ? record.word : undefined, reason });
+      return;
+    }
+    const valid = candidate as ExtractedWord;
+    words.push({ ...valid, example: valid.example || '', exampleZh: valid.exampleZh || '' });
+  });
+  return { words, rejected };
+};
+
 export const extractVocabulary = async (
   lyrics: string,
   songTitle: string,
+  language: SongLanguage,
   blacklist: string[] = [],
-  settings?: UserSettings
-): Promise<{ words: Array<{ word: string; meaning: string; level: string; example: string; exampleZh: string; sentence: string; sentenceEn: string; replaceWord: string }>; error?: string }> => {
+  settings?: UserSettings,
+  signal?: AbortSignal,
+  onProgress?: (parsedCount: number) => void
+): Promise<{
+  words: ExtractedWord[];
+  rejected?: RejectedItem[];
+  diagnostics?: JsonDiagnostics;
+  error?: string;
+  provider?: string;
+  model?: string;
+}> => {
   try {
     const aiStyle = settings?.aiStyle || 'lyric';
-    const systemPrompt = getSystemPrompt(aiStyle);
+    const profile = getLanguage(language);
+    const systemPrompt = profile.translate ? getSystemPrompt(aiStyle, profile) : getEnglishSystemPrompt(profile);
     const blacklistText = blacklist.length > 0 ? `Skip words in this blacklist: ${blacklist.join(', ')}` : '';
 
     const prompt = `${systemPrompt}
@@ -76,20 +210,22 @@ ${lyrics}
 
 ${blacklistText}`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 1, maxTokens: 16384 });
+    const stream = createJsonArrayStream();
+    const { text, error, provider, model } = await callAI(prompt, settings, {
+      temperature: 1,
+      maxTokens: 16384,
+      signal,
+      onText: onProgress ? (partial) => onProgress(stream.update(partial).length) : undefined,
+      responseSchema: VOCABULARY_RESPONSE,
+    });
 
     if (error || !text) {
       return { words: [], error };
     }
 
-    const jsonMatch = text.match(/\[[\s\S]*\]/);
-    if (!jsonMatch) {
-      console.log('Raw response:', text);
-      return { words: [] };
-    }
-
-    const words = JSON.parse(jsonMatch[0]);
-    return { words: Array.isArray(words) ? words : [] };
+    const { items, diagnostics } = salvageJsonArray(text);
+    const { words, rejected } = validateExtractedWords(items);
+    return { words, rejected, diagnostics, provider, model };
   } catch (error: any) {
     console.error('AI API error:', error);
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -100,8 +236,10 @@ ${blacklistText}`;
 export const translateLyrics = async (
   lyrics: string,
   style: AIStyle = 'lyric',
-  settings?: UserSettings
-): Promise<{ text: string; error?: string } | string> => {
+  settings?: UserSettings,
+  signal?: AbortSignal,
+  onText?: (partial: string) => void
+): Promise<{ text: string; error?: string }> => {
   const styleTranslation = STYLE_PROMPTS[style];
   try {
     const prompt = `Translate the following song lyrics into accurate English. 
@@ -114,13 +252,14 @@ IMPORTANT RULES:
 3. Keep the translation natural and faithful to the original meaning
 4. Do not translate word by word - translate the meaning of the whole sentence
 5. Ensure GRAMMAR is CORRECT
+6. Output one English line for each lyric line, in the same order, with no numbering or commentary
 
 Lyrics:
 ${lyrics}
 
 Translate each line/sentence accurately into English:`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 0.3, maxTokens: 4096 });
+    const { text, error } = await callAI(prompt, settings, { temperature: 0.3, maxTokens: 4096, signal, onText });
 
     if (error) {
       return { text: '', error };
@@ -147,7 +286,8 @@ export const evaluateAnswer = async (
   sentence: string,
   sentenceEn: string,
   meaning: string,
-  settings?: UserSettings
+  settings?: UserSettings,
+  signal?: AbortSignal
 ): Promise<AnswerEvaluation> => {
   try {
     const prompt = `You are an English vocabulary quiz evaluator. 
@@ -167,18 +307,24 @@ Evaluate based on:
 Respond with ONLY a JSON object in this exact format:
 {"isCorrect": true/false, "score": 0-100, "feedback": "Brief explanation in Chinese"}`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 0.3, maxTokens: 512 });
+    const { text, error } = await callAI(prompt, settings, {
+      temperature: 0.3,
+      maxTokens: 512,
+      signal,
+      responseSchema: ANSWER_EVALUATION_RESPONSE,
+    });
 
     if (error) {
       return { isCorrect: false, score: 0, feedback: error };
     }
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
+    const data = parseJsonLenient(text).value;
+    if (validateSchema(data, ANSWER_EVALUATION_RESPONSE.schema)) {
       return { isCorrect: false, score: 0, feedback: '无法评估答案' };
     }
 
-    return JSON.parse(jsonMatch[0]);
+    const { isCorrect, score, feedback } = data as AnswerEvaluation;
+    return { isCorrect, score, feedback };
   } catch (error: any) {
     console.error('Answer evaluation error:', error);
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -198,7 +344,8 @@ export const generatePracticeSentence = async (
   meaning: string,
   existingWords: string[],
   settings?: UserSettings,
-  replaceWord?: string
+  replaceWord?: string,
+  signal?: AbortSignal
 ): Promise<PracticeSentence> => {
   try {
     const otherWords = existingWords.filter(w => w.toLowerCase() !== word.toLowerCase());
@@ -217,19 +364,24 @@ Requirements:
 Return ONLY valid JSON in this format:
 {"sentence": "Complete English sentence", "sentenceZh": "Chinese translation"}`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 0.7, maxTokens: 512 });
+    const { text, error } = await callAI(prompt, settings, {
+      temperature: 0.7,
+      maxTokens: 512,
+      signal,
+      responseSchema: PRACTICE_SENTENCE_RESPONSE,
+    });
 
     if (error) {
       return { sentence: '____', sentenceZh: meaning, options, error };
     }
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
+    const data = parseJsonLenient(text).value;
+    if (validateSchema(data, PRACTICE_SENTENCE_RESPONSE.schema)) {
       return { sentence: '____', sentenceZh: meaning, options };
     }
 
-    const data = JSON.parse(jsonMatch[0]);
-    return { ...data, options };
+    const { sentence, sentenceZh } = data as { sentence: string; sentenceZh: string };
+    return { sentence, sentenceZh, options };
   } catch (error: any) {
     console.error('Generate practice sentence error:', error);
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -246,7 +398,8 @@ export interface TranslateQuestion {
 export const generateTranslateQuestion = async (
   word: string,
   meaning: string,
-  settings?: UserSettings
+  settings?: UserSettings,
+  signal?: AbortSignal
 ): Promise<TranslateQuestion> => {
   try {
     const prompt = `Create a Chinese sentence translation practice for the English word "${word}" (meaning: ${meaning}).
@@ -259,19 +412,20 @@ Requirements:
 Return ONLY valid JSON in this format:
 {"word": "${word}", "sentenceZh": "中文句子"}`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 0.7, maxTokens: 512 });
+    const { text, error } = await callAI(prompt, settings, {
+      temperature: 0.7,
+      maxTokens: 512,
+      signal,
+      responseSchema: TRANSLATE_QUESTION_RESPONSE,
+    });
 
     if (error) {
       return { word, sentenceZh: meaning, error };
     }
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return { word, sentenceZh: meaning };
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-    return { word, sentenceZh: parsed.sentenceZh || parsed.sentence || meaning };
+    const parsed = parseJsonLenient(text).value;
+    const sentenceZh = isJsonObject(parsed) ? parsed.sentenceZh || parsed.sentence : undefined;
+    return { word, sentenceZh: typeof sentenceZh === 'string' && sentenceZh ? sentenceZh : meaning };
   } catch (error: any) {
     console.error('Generate translate question error:', error);
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -282,7 +436,8 @@ Return ONLY valid JSON in this format:
 export const evaluateTranslation = async (
   userAnswer: string,
   sentenceZh: string,
-  settings?: UserSettings
+  settings?: UserSettings,
+  signal?: AbortSignal
 ): Promise<{ isCorrect: boolean; score: number; correctAnswer: string; feedback: string; error?: string }> => {
   try {
     const prompt = `Evaluate if the user's English translation is correct for the Chinese sentence: "${sentenceZh}"
@@ -299,7 +454,7 @@ Your answer: "[user's answer]"
 Correct: "[correct full translation]"
 Reason: [具体原因]`;
 
-    const { text, error } = await callAI(prompt, settings, { temperature: 0.3, maxTokens: 512 });
+    const { text, error } = await callAI(prompt, settings, { temperature: 0.3, maxTokens: 512, signal });
 
     if (error) {
       return { isCorrect: false, score: 0, correctAnswer: '', feedback: error };
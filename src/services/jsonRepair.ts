@@ -0,0 +1,157 @@
+import { createJsonArrayStream } from './jsonStream';
+
+export interface JsonDiagnostics {
+  /** 做过的修复，例如去掉 markdown 代码块、尾随逗号 */
+  repairs: string[];
+  /** 成功解析出的条目数 */
+  recovered: number;
+  /** 估计模型原本返回的条目数（包括被截断或无法解析的） */
+  estimated: number;
+  /** 数组没有正常结束（通常是 maxTokens 用完） */
+  truncated: boolean;
+}
+
+const OPEN_SMART_QUOTES = '“”';
+const CLOSES_VALUE = /^\s*[:,}\]]/;
+
+/**
+ * 修复模型输出中常见的 JSON 问题：markdown 代码块、JSON 前后的说明文字、
+ * 用作引号的中文弯引号、字符串里的裸换行和尾随逗号。不会补全被截断的内容
+ */
+export const repairJson = (input: string): { text: string; repairs: string[] } => {
+  const repairs = new Set<string>();
+  let text = input;
+
+  if (/```/.test(text)) {
+    text = text.replace(/```(?:json)?/gi, '');
+    repairs.add('removed markdown fences');
+  }
+
+  const start = text.search(/[[{]/);
+  if (start < 0) return { text: text.trim(), repairs: [...repairs] };
+  if (text.slice(0, start).trim()) repairs.add('removed text before JSON');
+
+  let output = '';
+  let depth = 0;
+  let inString = false;
+  let smartQuoted = false;
+  let escaped = false;
+  let end = text.length;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        output += char;
+      } else if (char === '\\') {
+        escaped = true;
+        output += char;
+      } else if (smartQuoted && OPEN_SMART_QUOTES.includes(char) && CLOSES_VALUE.test(text.slice(i + 1))) {
+        inString = false;
+        output += '"';
+      } else if (char === '"' && !smartQuoted) {
+        inString = false;
+        output += char;
+      } else if (char === '"') {
+        output += '\\"';
+      } else if (char === '\n' || char === '\r') {
+        repairs.add('escaped line breaks in strings');
+        if (char === '\n') output += '\\n';
+      } else {
+        output += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      smartQuoted = false;
+      output += char;
+    } else if (OPEN_SMART_QUOTES.includes(char)) {
+      inString = true;
+      smartQuoted = true;
+      repairs.add('replaced smart quotes');
+      output += '"';
+    } else if (char === ',') {
+      const next = text.slice(i + 1).match(/\S/);
+      if (next && (next[0] === '}' || next[0] === ']')) {
+        repairs.add('removed trailing commas');
+      } else {
+        output += char;
+      }
+    } else if (char === '{' || char === '[') {
+      depth++;
+      output += char;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      output += char;
+      if (depth === 0) {
+        end = i + 1;
+        break;
+      }
+    } else {
+      output += char;
+    }
+  }
+
+  if (text.slice(end).trim()) repairs.add('removed text after JSON');
+  return { text: output, repairs: [...repairs] };
+};
+
+/** 解析结果是否为普通 JSON 对象（不含数组） */
+export const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * 先直接解析，失败后修复再解析。仍然失败时 value 为 undefined
+ */
+export const parseJsonLenient = (text: string): { value: unknown; repairs: string[] } => {
+  try {
+    return { value: JSON.parse(text.trim()), repairs: [] };
+  } catch (error) {
+    // 需要修复
+  }
+
+  const repaired = repairJson(text);
+  try {
+    return { value: JSON.parse(repaired.text), repairs: repaired.repairs };
+  } catch (error) {
+    return { value: undefined, repairs: repaired.repairs };
+  }
+};
+
+const parseItem = (text: string) => {
+  const { value } = parseJsonLenient(text);
+  if (value === undefined) throw new Error('Unparseable item');
+  return value;
+};
+
+/**
+ * 从模型输出中取出对象数组（或 {"words": [...]} 这类包装）。
+ * 整体无法解析时（例如被截断），逐个取出已经完整的对象
+ */
+export const salvageJsonArray = (text: string, key = 'words'): { items: unknown[]; diagnostics: JsonDiagnostics } => {
+  const { value, repairs } = parseJsonLenient(text);
+  const list = Array.isArray(value) ? value : isJsonObject(value) ? value[key] : undefined;
+  if (Array.isArray(list)) {
+    return {
+      items: list,
+      diagnostics: { repairs, recovered: list.length, estimated: list.length, truncated: false },
+    };
+  }
+
+  const stream = createJsonArrayStream(parseItem);
+  const items = stream.update(text);
+  const { started } = stream.stats();
+  return {
+    items,
+    diagnostics: {
+      repairs: items.length > 0 ? [...repairs, 'salvaged complete items from truncated output'] : repairs,
+      recovered: items.length,
+      estimated: started,
+      truncated: true,
+    },
+  };
+};
@@ -0,0 +1,72 @@
+/**
+ * 增量解析流式返回的 JSON 数组：每次传入目前为止的完整文本，
+ * 只扫描新增部分，返回已经闭合的顶层对象。文本不再以上次内容开头时（例如重试）会从头解析。
+ * parse 抛错的对象会被跳过
+ */
+export const createJsonArrayStream = <T = unknown>(parse: (text: string) => T = JSON.parse) => {
+  let consumed = '';
+  let position = 0;
+  let arrayStarted = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  let started = 0;
+  let items: T[] = [];
+
+  const reset = () => {
+    consumed = '';
+    position = 0;
+    arrayStarted = false;
+    depth = 0;
+    inString = false;
+    escaped = false;
+    itemStart = -1;
+    started = 0;
+    items = [];
+  };
+
+  const update = (text: string): T[] => {
+    if (!text.startsWith(consumed)) reset();
+    consumed = text;
+
+    for (; position < text.length; position++) {
+      const char = text[position];
+      if (!arrayStarted) {
+        if (char === '[') arrayStarted = true;
+        continue;
+      }
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        if (depth === 0) {
+          itemStart = position;
+          started++;
+        }
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0 && itemStart >= 0) {
+          try {
+            items.push(parse(text.slice(itemStart, position + 1)));
+          } catch (error) {
+            // 单个对象格式错误时跳过，等整段返回后再统一解析
+          }
+          itemStart = -1;
+        }
+      }
+    }
+    return items;
+  };
+
+  /** started 为已经开始（包括尚未闭合）的顶层对象数 */
+  const stats = () => ({ parsed: items.length, started });
+
+  return { update, reset, stats };
+};
@@ -0,0 +1,128 @@
+import { SongLanguage } from '../types';
+import { findWordForm } from './lemmatizer';
+
+export interface LanguageProfile {
+  id: SongLanguage;
+  label: string;
+  /** 提示词里使用的语言名称 */
+  promptName: string;
+  /** 是否需要先翻译成英文再提取；英文歌曲直接从原句提取 */
+  translate: boolean;
+  /** 计入行长度的字符，少于 minLineLength 个的短行并入上一行；没有时不合并 */
+  lineChars?: RegExp;
+  minLineLength: number;
+  /** 释义是否取自原句中的对应词（中文、粤语），否则按英文单词在句中的意思给出中文释义 */
+  meaningFromLyric: boolean;
+  /** 提示词中的示例条目 */
+  example: string;
+}
+
+export const LANGUAGES: LanguageProfile[] = [
+  {
+    id: 'zh',
+    label: '🇨🇳 中文',
+    promptName: 'Chinese (Mandarin)',
+    translate: true,
+    lineChars: /[㐀-鿿]/g,
+    minLineLength: 6,
+    meaningFromLyric: true,
+    example: '{"word": "linger", "pos": "verb", "meaning": "停留:指迟迟不肯离开、在某处逗留", "level": "B2", "sentence": "更怕你永远停留在这里", "sentenceEn": "I\'m afraid you\'ll linger here forever", "replaceWord": "停留", "example": "The smell of coffee lingered in the kitchen.", "exampleZh": "咖啡的香味在厨房里久久不散。"}',
+  },
+  {
+    id: 'yue',
+    label: '🇭🇰 粵語',
+    promptName: 'Cantonese (written Cantonese in Chinese characters)',
+    translate: true,
+    lineChars: /[㐀-鿿]/g,
+    minLineLength: 6,
+    meaningFromLyric: true,
+    example: '{"word": "linger", "pos": "verb", "meaning": "徘徊:指迟迟不肯离开、在某处逗留", "level": "B2", "sentence": "我仲喺度徘徊", "sentenceEn": "I still linger here", "replaceWord": "徘徊", "example": "The smell of coffee lingered in the kitchen.", "exampleZh": "咖啡的香味在厨房里久久不散。"}',
+  },
+  {
+    id: 'ja',
+    label: '🇯🇵 日本語',
+    promptName: 'Japanese',
+    translate: true,
+    lineChars: /[぀-ヿ㐀-鿿]/g,
+    minLineLength: 6,
+    meaningFromLyric: false,
+    example: '{"word": "linger", "pos": "verb", "meaning": "停留:指迟迟不肯离开、在某处逗留", "level": "B2", "sentence": "君の香りがまだ残っている", "sentenceEn": "Your scent still lingers", "replaceWord": "残っている", "example": "The smell of coffee lingered in the kitchen.", "exampleZh": "咖啡的香味在厨房里久久不散。"}',
+  },
+  {
+    id: 'ko',
+    label: '🇰🇷 한국어',
+    promptName: 'Korean',
+    translate: true,
+    lineChars: /[가-힯]/g,
+    minLineLength: 5,
+    meaningFromLyric: false,
+    example: '{"word": "linger", "pos": "verb", "meaning": "停留:指迟迟不肯离开、在某处逗留", "level": "B2", "sentence": "너의 향기가 아직 남아 있어", "sentenceEn": "Your scent still lingers", "replaceWord": "남아 있어", "example": "The smell of coffee lingered in the kitchen.", "exampleZh": "咖啡的香味在厨房里久久不散。"}',
+  },
+  {
+    id: 'en',
+    label: '🇬🇧 English',
+    promptName: 'English',
+    translate: false,
+    minLineLength: 0,
+    meaningFromLyric: false,
+    example: '{"word": "linger", "pos": "verb", "meaning": "停留:指迟迟不肯离开、在某处逗留", "level": "B2", "sentence": "Your perfume lingered on my coat", "sentenceEn": "Your perfume lingered on my coat", "sentenceZh": "你的香水味久久留在我的外套上", "replaceWord": "lingered", "example": "The smell of coffee lingered in the kitchen.", "exampleZh": "咖啡的香味在厨房里久久不散。"}',
+  },
+];
+
+/** 找不到时按中文处理（旧数据都是中文歌曲） */
+export const getLanguage = (id?: string): LanguageProfile =>
+  LANGUAGES.find((l) => l.id === id) || LANGUAGES[0];
+
+/**
+ * 把过短的行（例如只有几个字的和声、语气词）并入上一行，避免单独成句
+ */
+export const mergeShortLines = (lines: string[], language: SongLanguage): string[] => {
+  const { lineChars, minLineLength } = getLanguage(language);
+  const result: string[] = [];
+  for (const line of lines) {
+    const length = lineChars ? (line.match(lineChars) || []).length : Infinity;
+    if (length < minLineLength && result.length > 0) {
+      result[result.length - 1] = result[result.length - 1] + ' ' + line;
+    } else {
+      result.push(line);
+    }
+  }
+  return result;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** 日语去掉词尾的假名（送り仮名），只保留含汉字的词干 */
+const japaneseStem = (word: string) => {
+  const stem = word.replace(/[぀-ゟ]+$/, '');
+  return /[㐀-鿿]/.test(stem) ? stem : '';
+};
+
+/** 韩语去掉词典形的 하다 / 다 词尾 */
+const koreanStem = (word: string) => word.replace(/(하다|다)$/, '');
+
+/**
+ * 在原句中查找 replaceWord，返回句中实际出现的写法，找不到时返回 null。
+ * 模型有时给出词典形（泣く、사랑하다），这时退回到词干匹配
+ */
+export const matchReplaceWord = (sentence: string, replaceWord: string, language: SongLanguage): string | null => {
+  const target = replaceWord.trim();
+  if (!target || !sentence) return null;
+
+  if (language === 'en') return findWordForm(target, sentence);
+  if (sentence.includes(target)) return target;
+
+  if (language === 'ja') {
+    const stem = japaneseStem(target);
+    if (stem && sentence.includes(stem)) return stem;
+  }
+  if (language === 'ko') {
+    const compact = target.replace(/\s+/g, '');
+    // 韩语空格写法不固定，忽略空格再比较
+    const spaced = sentence.match(new RegExp(compact.split('').map(escapeRegExp).join('\\s*')));
+    if (spaced) return spaced[0];
+    const stem = koreanStem(compact);
+    if (stem.length > 0 && stem !== compact && sentence.includes(stem)) return stem;
+  }
+  return null;
+};
@@ -0,0 +1,292 @@
+/**
+ * 轻量英文词形匹配：由原形生成常见屈折形式（复数、第三人称、过去式、进行时、比较级），
+ * 不规则形式查表。用于确认提取的单词确实出现在译文中
+ */
+const IRREGULAR_FORMS: Record<string, string[]> = {
+  arise: ['arose', 'arisen'],
+  awake: ['awoke', 'awoken'],
+  be: ['am', 'is', 'are', 'was', 'were', 'been', 'being'],
+  bear: ['bore', 'borne', 'born'],
+  beat: ['beaten'],
+  become: ['became'],
+  begin: ['began', 'begun'],
+  bend: ['bent'],
+  bind: ['bound'],
+  bite: ['bit', 'bitten'],
+  bleed: ['bled'],
+  blow: ['blew', 'blown'],
+  break: ['broke', 'broken'],
+  breed: ['bred'],
+  bring: ['brought'],
+  build: ['built'],
+  burn: ['burnt'],
+  buy: ['bought'],
+  catch: ['caught'],
+  choose: ['chose', 'chosen'],
+  cling: ['clung'],
+  come: ['came'],
+  creep: ['crept'],
+  dig: ['dug'],
+  do: ['did', 'done', 'does'],
+  draw: ['drew', 'drawn'],
+  dream: ['dreamt'],
+  drink: ['drank', 'drunk'],
+  drive: ['drove', 'driven'],
+  dwell: ['dwelt'],
+  eat: ['ate', 'eaten'],
+  fall: ['fell', 'fallen'],
+  feed: ['fed'],
+  feel: ['felt'],
+  fight: ['fought'],
+  find: ['found'],
+  flee: ['fled'],
+  fling: ['flung'],
+  fly: ['flew', 'flown'],
+  forbid: ['forbade', 'forbidden'],
+  forget: ['forgot', 'forgotten'],
+  forgive: ['forgave', 'forgiven'],
+  forsake: ['forsook', 'forsaken'],
+  freeze: ['froze', 'frozen'],
+  get: ['got', 'gotten'],
+  give: ['gave', 'given'],
+  go: ['went', 'gone', 'goes'],
+  grind: ['ground'],
+  grow: ['grew', 'grown'],
+  hang: ['hung'],
+  have: ['had', 'has'],
+  hear: ['heard'],
+  hide: ['hid', 'hidden'],
+  hold: ['held'],
+  keep: ['kept'],
+  kneel: ['knelt'],
+  know: ['knew', 'known'],
+  lay: ['laid'],
+  lead: ['led'],
+  lean: ['leant'],
+  leap: ['leapt'],
+  leave: ['left'],
+  lend: ['lent'],
+  lie: ['lay', 'lain', 'lying'],
+  light: ['lit'],
+  lose: ['lost'],
+  make: ['made'],
+  mean: ['meant'],
+  meet: ['met'],
+  overcome: ['overcame'],
+  pay: ['paid'],
+  ride: ['rode', 'ridden'],
+  ring: ['rang', 'rung'],
+  rise: ['rose', 'risen'],
+  run: ['ran'],
+  say: ['said'],
+  see: ['saw', 'seen'],
+  seek: ['sought'],
+  sell: ['sold'],
+  send: ['sent'],
+  shake: ['shook', 'shaken'],
+  shine: ['shone'],
+  shoot: ['shot'],
+  shrink: ['shrank', 'shrunk'],
+  sing: ['sang', 'sung'],
+  sink: ['sank', 'sunk'],
+  sit: ['sat'],
+  sleep: ['slept'],
+  slide: ['slid'],
+  speak: ['spoke', 'spoken'],
+  speed: ['sped'],
+  spend: ['spent'],
+  spin: ['spun'],
+  spit: ['spat'],
+  spring: ['sprang', 'sprung'],
+  stand: ['stood'],
+  steal: ['stole', 'stolen'],
+  stick: ['stuck'],
+  sting: ['stung'],
+  stride: ['strode', 'stridden'],
+  strike: ['struck', 'stricken'],
+  strive: ['strove', 'striven'],
+  swear: ['swore', 'sworn'],
+  sweep: ['swept'],
+  swim: ['swam', 'swum'],
+  swing: ['swung'],
+  take: ['took', 'taken'],
+  teach: ['taught'],
+  tear: ['tore', 'torn'],
+  tell: ['told'],
+  think: ['thought'],
+  throw: ['threw', 'thrown'],
+  tread: ['trod', 'trodden'],
+  undertake: ['undertook', 'undertaken'],
+  understand: ['understood'],
+  wake: ['woke', 'woken'],
+  wear: ['wore', 'worn'],
+  weave: ['wove', 'woven'],
+  weep: ['wept'],
+  win: ['won'],
+  wind: ['wound'],
+  withdraw: ['withdrew', 'withdrawn'],
+  wring: ['wrung'],
+  write: ['wrote', 'written'],
+  // 名词
+  child: ['children'],
+  foot: ['feet'],
+  man: ['men'],
+  mouse: ['mice'],
+  person: ['people'],
+  tooth: ['teeth'],
+  woman: ['women'],
+  // 形容词
+  bad: ['worse', 'worst'],
+  far: ['farther', 'farthest', 'further', 'furthest'],
+  good: ['better', 'best'],
+  little: ['less', 'least'],
+  many: ['more', 'most'],
+  much: ['more', 'most'],
+};
+
+const VOWELS = 'aeiou';
+
+const isConsonant = (char: string | undefined) => !!char && /[a-z]/.test(char) && !VOWELS.includes(char);
+
+/** 辅音+元音+辅音结尾（w、x、y 除外）时，加后缀可能双写末尾辅音 */
+const endsWithCvc = (word: string) => {
+  const [a, b, c] = word.slice(-3);
+  return word.length >= 3 && isConsonant(a) && !!b && VOWELS.includes(b) && isConsonant(c) && !'wxy'.includes(c);
+};
+
+export const getInflections = (word: string): string[] => {
+  const base = word.toLowerCase().trim();
+  const forms = new Set<string>([base, ...(IRREGULAR_FORMS[base] || [])]);
+  const last = base.slice(-1);
+  const stem = base.slice(0, -1);
+  const consonantY = last === 'y' && isConsonant(base.slice(-2, -1));
+
+  // 复数 / 第三人称单数
+  if (/(s|x|z|ch|sh|o)$/.test(base)) forms.add(`${base}es`);
+  if (consonantY) forms.add(`${stem}ies`);
+  if (base.endsWith('fe')) forms.add(`${base.slice(0, -2)}ves`);
+  else if (last === 'f') forms.add(`${stem}ves`);
+  forms.add(`${base}s`);
+
+  // 过去式、进行时、比较级
+  if (last === 'e') {
+    forms.add(`${base}d`);
+    forms.add(`${base}r`);
+    forms.add(`${base}st`);
+    if (base.endsWith('ie')) forms.add(`${base.slice(0, -2)}ying`);
+    else if (!/(ee|ye|oe)$/.test(base)) forms.add(`${stem}ing`);
+    forms.add(`${base}ing`);
+  } else {
+    if (consonantY) {
+      forms.add(`${stem}ied`);
+      forms.add(`${stem}ier`);
+      forms.add(`${stem}iest`);
+    }
+    forms.add(`${base}ed`);
+    forms.add(`${base}ing`);
+    forms.add(`${base}er`);
+    forms.add(`${base}est`);
+    if (endsWithCvc(base)) {
+      forms.add(`${base}${last}ed`);
+      forms.add(`${base}${last}ing`);
+      forms.add(`${base}${last}er`);
+      forms.add(`${base}${last}est`);
+    }
+  }
+
+  return [...forms];
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * 在句子中查找单词本身或其屈折形式，返回句子中的实际写法；找不到时返回 null。
+ * 词组（含空格或连字符）按整体匹配
+ */
+export const findWordForm = (word: string, sentence: string): string | null => {
+  const base = word.toLowerCase().trim();
+  if (!base || !sentence) return null;
+
+  if (/[\s-]/.test(base)) {
+    const match = sentence.match(new RegExp(`\\b${escapeRegExp(base)}\\w*`, 'i'));
+    return match ? match[0] : null;
+  }
+
+  const forms = new Set(getInflections(base));
+  const tokens = sentence.match(/[A-Za-z]+(?:'[A-Za-z]+)?/g) || [];
+  for (const token of tokens) {
+    const lower = token.toLowerCase();
+    if (forms.has(lower)) return token;
+    if (/'s$/.test(lower) && forms.has(lower.slice(0, -2))) return token.slice(0, -2);
+  }
+  return null;
+};
+
+let irregularBases: Map<string, string[]> | null = null;
+
+/** 不规则形式到原形的反查表，第一次使用时生成 */
+const getIrregularBases = () => {
+  if (!irregularBases) {
+    irregularBases = new Map();
+    for (const [base, forms] of Object.entries(IRREGULAR_FORMS)) {
+      for (const form of forms) {
+        irregularBases.set(form, [...(irregularBases.get(form) || []), base]);
+      }
+    }
+  }
+  return irregularBases;
+};
+
+/** 不规则形式的原形（went → go），没有时返回空数组 */
+export const getIrregularBaseForms = (word: string): string[] =>
+  getIrregularBases().get(word.toLowerCase().trim()) || [];
+
+/**
+ * 由屈折形式反推可能的原形（getInflections 的逆过程），按可能性排列，不含单词本身。
+ * 只做规则变换，结果需要再查词表确认
+ */
+export const getBaseForms = (word: string): string[] => {
+  const form = word.toLowerCase().trim();
+  const bases = new Set<string>(getIrregularBaseForms(form));
+  const strip = (suffix: string) => form.slice(0, -suffix.length);
+  const addStem = (stem: string) => {
+    if (stem.length < 2) return;
+    if (stem.length > 2) bases.add(stem);
+    bases.add(`${stem}e`);
+    // 双写的末尾辅音：dragged → drag
+    if (stem.length > 2 && stem.slice(-1) === stem.slice(-2, -1) && isConsonant(stem.slice(-1))) {
+      bases.add(stem.slice(0, -1));
+    }
+  };
+
+  if (form.endsWith('ies')) bases.add(`${strip('ies')}y`);
+  if (form.endsWith('ves')) {
+    bases.add(`${strip('ves')}f`);
+    bases.add(`${strip('ves')}fe`);
+  }
+  if (form.endsWith('es')) bases.add(strip('es'));
+  if (form.endsWith('s') && !form.endsWith('ss')) bases.add(strip('s'));
+
+  if (form.endsWith('ied')) bases.add(`${strip('ied')}y`);
+  if (form.endsWith('ed')) addStem(strip('ed'));
+  if (form.endsWith('ying')) bases.add(`${strip('ying')}ie`);
+  if (form.endsWith('ing')) addStem(strip('ing'));
+
+  if (form.endsWith('iest')) bases.add(`${strip('iest')}y`);
+  if (form.endsWith('ier')) bases.add(`${strip('ier')}y`);
+  if (form.endsWith('est')) addStem(strip('est'));
+  if (form.endsWith('er')) addStem(strip('er'));
+
+  bases.delete(form);
+  return [...bases];
+};
+
+/**
+ * 两个单词是否为同一词的不同形式（例如 drag / dragged），用于跨分块去重
+ */
+export const isSameLemma = (a: string, b: string): boolean => {
+  const x = a.toLowerCase().trim();
+  const y = b.toLowerCase().trim();
+  if (x === y) return true;
+  return getInflections(x).includes(y) || getInflections(y).includes(x);
+};
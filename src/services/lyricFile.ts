@@ -0,0 +1,115 @@
+import { pickTextFile, pickTextFiles } from './fileTransfer';
+
+/** 带时间戳的歌词行，time 为距歌曲开头的毫秒数 */
+export interface TimedLine {
+  time: number;
+  text: string;
+}
+
+export interface LyricFile {
+  title?: string;
+  artist?: string;
+  lines: TimedLine[];
+}
+
+const LRC_TIME = /\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LRC_TAG = /^\[(ti|ar|al|by|offset|length|re|ve):(.*)\]$/i;
+const SRT_TIME = /(\d{1,2}):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->/;
+
+/** 小数部分按位数换算成毫秒：.5 → 500，.45 → 450，.456 → 456 */
+const fractionToMs = (fraction?: string) => (fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0);
+
+/**
+ * 解析 LRC：支持一行多个时间戳、[ti:] [ar:] 标签和 [offset:]（毫秒，正数表示提前）。
+ * 没有时间戳的文字行丢弃，结果按时间排序
+ */
+export const parseLrc = (text: string): LyricFile => {
+  const result: LyricFile = { lines: [] };
+  let offset = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const tag = line.match(LRC_TAG);
+    if (tag) {
+      const key = tag[1].toLowerCase();
+      const value = tag[2].trim();
+      if (key === 'ti' && value) result.title = value;
+      if (key === 'ar' && value) result.artist = value;
+      if (key === 'offset') offset = Number(value) || 0;
+      continue;
+    }
+
+    const times = [...line.matchAll(LRC_TIME)];
+    if (times.length === 0) continue;
+    // 增强型 LRC 的逐字时间 <mm:ss.xx> 一并去掉
+    const lyric = line.replace(LRC_TIME, '').replace(/<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g, '').trim();
+    if (!lyric) continue;
+
+    for (const [, minutes, seconds, fraction] of times) {
+      const time = Number(minutes) * 60000 + Number(seconds) * 1000 + fractionToMs(fraction);
+      result.lines.push({ time: Math.max(0, time - offset), text: lyric });
+    }
+  }
+
+  result.lines.sort((a, b) => a.time - b.time);
+  return result;
+};
+
+/**
+ * 解析 SRT：每段取开始时间，多行字幕各自成行，去掉 <i> 等格式标签
+ */
+export const parseSrt = (text: string): LyricFile => {
+  const lines: TimedLine[] = [];
+  for (const block of text.replace(/^\uFEFF/, '').split(/\r?\n\s*\r?\n/)) {
+    const rows = block.split(/\r?\n/).map((row) => row.trim()).filter(Boolean);
+    const timeIndex = rows.findIndex((row) => SRT_TIME.test(row));
+    if (timeIndex < 0) continue;
+
+    const [, hours, minutes, seconds, fraction] = rows[timeIndex].match(SRT_TIME)!;
+    const time = Number(hours) * 3600000 + Number(minutes) * 60000 + Number(seconds) * 1000 + fractionToMs(fraction);
+    for (const row of rows.slice(timeIndex + 1)) {
+      const lyric = row.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '').trim();
+      if (lyric) lines.push({ time, text: lyric });
+    }
+  }
+  return { lines };
+};
+
+/**
+ * 按扩展名（没有时按内容）选择解析方式。没有解析出任何歌词行时抛错
+ */
+export const parseLyricFile = (name: string, text: string): LyricFile => {
+  const isSrt = /\.srt$/i.test(name) || (!/\.lrc$/i.test(name) && SRT_TIME.test(text));
+  const parsed = isSrt ? parseSrt(text) : parseLrc(text);
+  if (parsed.lines.length === 0) {
+    throw new Error(`No timed lyric lines found in ${name}`);
+  }
+  if (!parsed.title) {
+    parsed.title = name.replace(/\.(lrc|srt|txt)$/i, '');
+  }
+  return parsed;
+};
+
+/**
+ * 找到歌词句子所在行的时间戳。句子可能由几行合并而成，取第一行的时间
+ */
+export const findLineTime = (sentence: string, lines: TimedLine[]): number | undefined => {
+  const target = sentence.trim();
+  if (!target) return undefined;
+  const match =
+    lines.find((line) => line.text === target) ||
+    lines.find((line) => target.startsWith(line.text)) ||
+    lines.find((line) => line.text.includes(target) || target.includes(line.text));
+  return match?.time;
+};
+
+/** 毫秒格式化为 m:ss */
+export const formatLyricTime = (time: number) => {
+  const totalSeconds = Math.floor(time / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+/** .lrc 没有通用的 MIME 类型，只能允许选择任意文件 */
+export const pickLyricFile = async (): Promise<{ name: string; text: string } | null> => pickTextFile('*/*');
+
+export const pickLyricFiles = async (): Promise<{ name: string; text: string }[]> => pickTextFiles('*/*');
@@ -0,0 +1,184 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+/**
+ * 按歌名把旧来源关联到歌曲 id；同名歌曲取最早导入的那首
+ */
+export const BACKFILL_SOURCE_SONG_IDS = `
+UPDATE sources
+SET song_id = COALESCE(
+  (SELECT songs.id FROM songs WHERE songs.title = sources.song_title ORDER BY songs.created_at LIMIT 1),
+  ''
+)
+WHERE song_id = '';
+`;
+
+/**
+ * 以前 Factory 只支持中文歌词，但歌曲一律存成 'en'；歌词里有汉字的改回 'zh'
+ */
+export const FIX_CHINESE_SONG_LANGUAGE = `
+UPDATE songs SET language = 'zh' WHERE language = 'en' AND lyrics GLOB '*[一-鿿]*';
+`;
+
+/**
+ * 按版本号升序排列的数据库迁移。新增字段时追加一条迁移，不要修改已发布的迁移
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: (db) => db.execAsync(`
+CREATE TABLE IF NOT EXISTS words (
+  id TEXT PRIMARY KEY NOT NULL,
+  word TEXT NOT NULL,
+  meaning TEXT NOT NULL DEFAULT '',
+  example TEXT NOT NULL DEFAULT '',
+  example_zh TEXT NOT NULL DEFAULT '',
+  level TEXT NOT NULL DEFAULT '',
+  is_mastered INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL,
+  review TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_words_word ON words (word COLLATE NOCASE);
+
+CREATE TABLE IF NOT EXISTS sources (
+  id TEXT PRIMARY KEY NOT NULL,
+  word_id TEXT NOT NULL,
+  song_title TEXT NOT NULL DEFAULT '',
+  artist TEXT NOT NULL DEFAULT '',
+  lyric_sentence TEXT NOT NULL DEFAULT '',
+  lyric_sentence_en TEXT NOT NULL DEFAULT '',
+  lyric_translated TEXT NOT NULL DEFAULT '',
+  replace_word TEXT NOT NULL DEFAULT ''
+);
+CREATE INDEX IF NOT EXISTS idx_sources_word_id ON sources (word_id);
+CREATE INDEX IF NOT EXISTS idx_sources_song_title ON sources (song_title);
+
+CREATE TABLE IF NOT EXISTS songs (
+  id TEXT PRIMARY KEY NOT NULL,
+  title TEXT NOT NULL,
+  artist TEXT NOT NULL DEFAULT '',
+  language TEXT NOT NULL DEFAULT 'zh',
+  lyrics TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'completed',
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blacklist (
+  id TEXT PRIMARY KEY NOT NULL,
+  word TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_blacklist_word ON blacklist (word);
+
+CREATE TABLE IF NOT EXISTS wrong_answers (
+  id TEXT PRIMARY KEY NOT NULL,
+  word_id TEXT NOT NULL,
+  word TEXT NOT NULL,
+  meaning TEXT NOT NULL DEFAULT '',
+  user_answer TEXT NOT NULL DEFAULT '',
+  correct_answer TEXT NOT NULL DEFAULT '',
+  sentence TEXT NOT NULL DEFAULT '',
+  sentence_en TEXT NOT NULL DEFAULT '',
+  score INTEGER NOT NULL DEFAULT 0,
+  feedback TEXT NOT NULL DEFAULT '',
+  song_title TEXT NOT NULL DEFAULT '',
+  created_at INTEGER NOT NULL,
+  error_type TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_wrong_answers_word_id ON wrong_answers (word_id);
+
+CREATE TABLE IF NOT EXISTS settings (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY NOT NULL,
+  value TEXT NOT NULL
+);
+`),
+  },
+  {
+    version: 2,
+    description: 'Recovery table for data that could not be read',
+    up: (db) => db.execAsync(`
+CREATE TABLE IF NOT EXISTS recovery (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source TEXT NOT NULL,
+  raw TEXT NOT NULL,
+  error TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+`),
+  },
+  {
+    version: 3,
+    description: 'Link sources to songs by id',
+    up: async (db) => {
+      await db.execAsync(`
+ALTER TABLE sources ADD COLUMN song_id TEXT NOT NULL DEFAULT '';
+CREATE INDEX IF NOT EXISTS idx_sources_song_id ON sources (song_id);
+`);
+      await db.execAsync(BACKFILL_SOURCE_SONG_IDS);
+    },
+  },
+  {
+    version: 4,
+    description: 'Mark Chinese songs saved with the wrong language',
+    up: (db) => db.execAsync(FIX_CHINESE_SONG_LANGUAGE),
+  },
+  {
+    version: 5,
+    description: 'Timestamp of the lyric line for each source',
+    up: (db) => db.execAsync('ALTER TABLE sources ADD COLUMN lyric_time INTEGER;'),
+  },
+  {
+    version: 6,
+    description: 'Line-aligned translation for each song',
+    up: (db) => db.execAsync('ALTER TABLE songs ADD COLUMN translation TEXT;'),
+  },
+  {
+    version: 7,
+    description: 'Extraction style and model for each source',
+    up: (db) => db.execAsync('ALTER TABLE sources ADD COLUMN provenance TEXT;'),
+  },
+  {
+    version: 8,
+    description: 'Import queue error and lyric timestamps for each song',
+    up: (db) =>
+      db.execAsync(`
+ALTER TABLE songs ADD COLUMN error TEXT;
+ALTER TABLE songs ADD COLUMN timed_lines TEXT;
+`),
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (db: SQLiteDatabase): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+/**
+ * 依次执行尚未应用的迁移，每条迁移与版本号更新在同一事务中提交
+ */
+export const runMigrations = async (db: SQLiteDatabase): Promise<void> => {
+  const currentVersion = await getSchemaVersion(db);
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(`Database schema v${currentVersion} is newer than this app supports (v${SCHEMA_VERSION})`);
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= currentVersion) continue;
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version}`);
+    });
+  }
+};
@@ -0,0 +1,40 @@
+import { CustomEndpoint } from '../../types';
+import { AIProvider } from './types';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export const CUSTOM_PROVIDER_PREFIX = 'custom:';
+
+export const createCustomProvider = (endpoint: CustomEndpoint): AIProvider =>
+  createOpenAICompatibleProvider({
+    id: `${CUSTOM_PROVIDER_PREFIX}${endpoint.id}`,
+    name: endpoint.name || endpoint.baseURL,
+    baseURL: endpoint.baseURL,
+    models: endpoint.model ? [endpoint.model] : [],
+    defaultModel: endpoint.model,
+    keyField: {
+      placeholder: 'API key (optional)',
+      hint: `OpenAI-compatible endpoint at ${endpoint.baseURL}`,
+      required: false,
+    },
+    headers: endpoint.headers,
+  });
+
+/**
+ * 解析每行一个的 “Header-Name: value” 文本
+ */
+export const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf(':');
+    if (index <= 0) continue;
+    const name = line.slice(0, index).trim();
+    const value = line.slice(index + 1).trim();
+    if (name) headers[name] = value;
+  }
+  return headers;
+};
+
+export const formatHeaders = (headers: Record<string, string>): string =>
+  Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\n');
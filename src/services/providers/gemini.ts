@@ -0,0 +1,79 @@
+import { GoogleGenerativeAI, ResponseSchema as GeminiSchema } from '@google/generative-ai';
+import { JsonSchema } from '../schema';
+import { AIProvider } from './types';
+
+/**
+ * Gemini 的字符串枚举需要额外标注 format: 'enum'
+ */
+const toGeminiSchema = (schema: JsonSchema): Record<string, unknown> => {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? { type: 'string', format: 'enum', enum: schema.enum } : { type: 'string' };
+    case 'array':
+      return { type: 'array', items: toGeminiSchema(schema.items) };
+    case 'object':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        ),
+        required: schema.required,
+      };
+    default:
+      return { type: schema.type };
+  }
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  models: [
+    'gemini-2.5-flash-lite',
+    'gemini-3-flash-preview',
+    'gemini-2.5-flash',
+    'gemma-3-27b-it',
+  ],
+  defaultModel: 'gemini-2.5-flash-lite',
+  keyField: {
+    placeholder: 'Enter Gemini API key...',
+    hint: 'Default key pre-configured. Get your own from Google AI Studio',
+    required: false,
+  },
+
+  complete: async ({ apiKey, model, prompt, signal, onDelta, responseSchema }) => {
+    const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model,
+      generationConfig: responseSchema
+        ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema.schema) as unknown as GeminiSchema,
+          }
+        : undefined,
+    });
+
+    // SDK 的流式解析依赖 TextDecoderStream，运行环境没有时退回普通请求，一次性返回全文
+    if (onDelta && typeof TextDecoderStream !== 'undefined') {
+      const result = await generativeModel.generateContentStream(prompt, { signal });
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = chunk.text();
+        text += delta;
+        onDelta(delta);
+      }
+      return text;
+    }
+
+    const result = await generativeModel.generateContent(prompt, { signal });
+    const text = result.response.text();
+    onDelta?.(text);
+    return text;
+  },
+
+  healthCheck: async ({ apiKey, model }) => {
+    const genAI = new GoogleGenerativeAI(apiKey);
+    const result = await genAI.getGenerativeModel({ model }).generateContent('test');
+    if (!result.response) {
+      throw new Error('No response from API');
+    }
+  },
+};
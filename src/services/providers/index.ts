@@ -0,0 +1,32 @@
+import { UserSettings } from '../../types';
+import { AIProvider, ProviderConfig } from './types';
+import { geminiProvider } from './gemini';
+import { nvidiaProvider } from './nvidia';
+import { opencodeProvider } from './opencode';
+import { createCustomProvider } from './custom';
+
+export * from './types';
+export { CUSTOM_PROVIDER_PREFIX, parseHeaders, formatHeaders } from './custom';
+
+/**
+ * 内置服务商，顺序即设置页中的显示顺序
+ */
+export const PROVIDERS: AIProvider[] = [geminiProvider, nvidiaProvider, opencodeProvider];
+
+export const DEFAULT_PROVIDER_ID = geminiProvider.id;
+
+/**
+ * 内置服务商加上用户配置的自定义接口
+ */
+export const getProviders = (settings?: Partial<UserSettings>): AIProvider[] => [
+  ...PROVIDERS,
+  ...(settings?.customEndpoints || []).map(createCustomProvider),
+];
+
+export const getProvider = (id?: string, settings?: Partial<UserSettings>): AIProvider | undefined =>
+  getProviders(settings).find((p) => p.id === (id || DEFAULT_PROVIDER_ID));
+
+export const getProviderConfig = (provider: AIProvider, settings?: Partial<UserSettings>): ProviderConfig => ({
+  apiKey: settings?.apiKeys?.[provider.id] || '',
+  model: settings?.models?.[provider.id] || provider.defaultModel,
+});
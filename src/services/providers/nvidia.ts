@@ -0,0 +1,19 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export const nvidiaProvider = createOpenAICompatibleProvider({
+  id: 'nvidia',
+  name: 'NVIDIA',
+  baseURL: 'https://integrate.api.nvidia.com/v1',
+  models: [
+    'moonshotai/kimi-k2.5',
+    'deepseek-ai/deepseek-v3.2',
+    'qwen/qwen3.5-397b-a17b',
+    'minimaxai/minimax-m2.1',
+  ],
+  defaultModel: 'moonshotai/kimi-k2.5',
+  keyField: {
+    placeholder: 'Enter NVIDIA API key...',
+    hint: 'Get your API key from NVIDIA NGC',
+    required: true,
+  },
+});
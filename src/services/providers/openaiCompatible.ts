@@ -0,0 +1,94 @@
+import OpenAI from 'openai';
+import { fetch as expoFetch } from 'expo/fetch';
+import { AIProvider, ProviderKeyField } from './types';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  baseURL: string;
+  models: string[];
+  defaultModel: string;
+  keyField: ProviderKeyField;
+  headers?: Record<string, string>;
+}
+
+/**
+ * 基于 OpenAI Chat Completions 协议的服务商（NVIDIA、OpenCode、自定义接口等）。
+ * 重试由 callAI 统一处理，所以关闭 SDK 自带的重试
+ */
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions): AIProvider => {
+  // React Native 自带的 fetch 不支持读取流式响应，流式请求改用 expo/fetch
+  const createClient = (apiKey: string, streaming = false) =>
+    new OpenAI({
+      baseURL: options.baseURL,
+      apiKey,
+      defaultHeaders: options.headers,
+      maxRetries: 0,
+      fetch: streaming ? (expoFetch as unknown as typeof fetch) : undefined,
+    });
+
+  return {
+    id: options.id,
+    name: options.name,
+    models: options.models,
+    defaultModel: options.defaultModel,
+    keyField: options.keyField,
+
+    complete: async ({ apiKey, model, prompt, systemPrompt, temperature, maxTokens, signal, onDelta, responseSchema }) => {
+      const messages = systemPrompt
+        ? [
+            { role: 'system' as const, content: systemPrompt },
+            { role: 'user' as const, content: prompt },
+          ]
+        : [{ role: 'user' as const, content: prompt }];
+      const responseFormat = responseSchema
+        ? {
+            type: 'json_schema' as const,
+            json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: false },
+          }
+        : undefined;
+
+      if (onDelta) {
+        const stream = await createClient(apiKey, true).chat.completions.create({
+          model,
+          messages,
+          temperature,
+          max_tokens: maxTokens,
+          response_format: responseFormat,
+          stream: true,
+        }, { signal });
+
+        let text = '';
+        for await (const chunk of stream) {
+          const delta = chunk.choices[0]?.delta?.content || '';
+          if (delta) {
+            text += delta;
+            onDelta(delta);
+          }
+        }
+        return text;
+      }
+
+      const completion = await createClient(apiKey).chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        response_format: responseFormat,
+      }, { signal });
+
+      return completion.choices[0]?.message?.content || '';
+    },
+
+    healthCheck: async ({ apiKey, model }) => {
+      const completion = await createClient(apiKey).chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: 'test' }],
+        max_tokens: 1,
+      });
+      if (!completion.choices[0]) {
+        throw new Error('No response from API');
+      }
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+export const opencodeProvider = createOpenAICompatibleProvider({
+  id: 'opencode',
+  name: 'OpenCode',
+  baseURL: 'https://opencode.ai/zen/v1',
+  models: [
+    'big-pickle',
+    'glm-4.7-free',
+    'kimi-k2.5-free',
+    'minimax-m2.1-free',
+    'grok-code-fast-1',
+    'gpt-5-nano',
+  ],
+  defaultModel: 'big-pickle',
+  keyField: {
+    placeholder: 'Enter OpenCode API key...',
+    hint: 'Get your API key from opencode.ai/zen',
+    required: true,
+  },
+});
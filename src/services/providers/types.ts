@@ -0,0 +1,39 @@
+import { ResponseSchema } from '../schema';
+
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;
+}
+
+export interface CompletionRequest extends ProviderConfig {
+  prompt: string;
+  systemPrompt?: string;
+  temperature: number;
+  maxTokens: number;
+  /** 用户取消或超时时触发 */
+  signal: AbortSignal;
+  /** 提供时以流式请求，每收到一段文本调用一次 */
+  onDelta?: (delta: string) => void;
+  /** 提供时要求模型按该 schema 返回 JSON */
+  responseSchema?: ResponseSchema;
+}
+
+export interface ProviderKeyField {
+  placeholder: string;
+  hint: string;
+  required: boolean;
+}
+
+/**
+ * AI 服务商。新增服务商只需实现该接口并在 providers/index.ts 中注册
+ */
+export interface AIProvider {
+  id: string;
+  name: string;
+  models: string[];
+  defaultModel: string;
+  keyField: ProviderKeyField;
+  complete: (request: CompletionRequest) => Promise<string>;
+  /** 发送一个最小请求，失败时抛出错误 */
+  healthCheck: (config: ProviderConfig) => Promise<void>;
+}
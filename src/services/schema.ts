@@ -0,0 +1,56 @@
+/**
+ * JSON Schema 的一个子集，同时用于请求结构化输出（Gemini responseSchema、
+ * OpenAI response_format）和解析后的运行时校验
+ */
+export type JsonSchema =
+  | { type: 'string'; enum?: string[] }
+  | { type: 'number' | 'integer' | 'boolean' }
+  | { type: 'array'; items: JsonSchema }
+  | { type: 'object'; properties: Record<string, JsonSchema>; required: string[] };
+
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+/**
+ * 校验 value 是否符合 schema，返回第一处不符合的原因；符合时返回 null。
+ * 必填字符串为空也视为缺失
+ */
+export const validateSchema = (value: unknown, schema: JsonSchema, path = 'value'): string | null => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return `${path} should be a string`;
+      if (schema.enum && !schema.enum.includes(value)) return `${path} "${value}" is not one of ${schema.enum.join('/')}`;
+      return null;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || Number.isNaN(value)) return `${path} should be a number`;
+      return null;
+    case 'boolean':
+      if (typeof value !== 'boolean') return `${path} should be true or false`;
+      return null;
+    case 'array':
+      if (!Array.isArray(value)) return `${path} should be an array`;
+      for (let i = 0; i < value.length; i++) {
+        const reason = validateSchema(value[i], schema.items, `${path}[${i}]`);
+        if (reason) return reason;
+      }
+      return null;
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return `${path} should be an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required) {
+        if (record[key] === undefined || record[key] === null || record[key] === '') {
+          return `missing "${key}"`;
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] === undefined) continue;
+        const reason = validateSchema(record[key], propertySchema, key);
+        if (reason) return reason;
+      }
+      return null;
+    }
+  }
+};
@@ -0,0 +1,41 @@
+import { UserSettings } from '../types';
+
+const LEGACY_KEY_PATTERN = /^(\w+)ApiKey$/;
+const LEGACY_MODEL_PATTERN = /^(\w+)Model$/;
+
+const asStringMap = (value: unknown): Record<string, string> => {
+  if (!value || typeof value !== 'object') return {};
+  const result: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item === 'string') result[key] = item;
+  }
+  return result;
+};
+
+/**
+ * 旧版本把每个服务商的 key 和模型存成 geminiApiKey / geminiModel 这样的独立字段，
+ * 这里统一折叠进 apiKeys / models，新字段优先
+ */
+export const normalizeSettings = (raw: Record<string, unknown>): Partial<UserSettings> => {
+  const settings: Record<string, unknown> = {};
+  const legacyKeys: Record<string, string> = {};
+  const legacyModels: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    const keyMatch = key.match(LEGACY_KEY_PATTERN);
+    const modelMatch = key.match(LEGACY_MODEL_PATTERN);
+    if (keyMatch) {
+      if (typeof value === 'string' && value) legacyKeys[keyMatch[1]] = value;
+    } else if (modelMatch) {
+      if (typeof value === 'string' && value) legacyModels[modelMatch[1]] = value;
+    } else {
+      settings[key] = value;
+    }
+  }
+
+  const apiKeys = { ...legacyKeys, ...asStringMap(raw.apiKeys) };
+  const models = { ...legacyModels, ...asStringMap(raw.models) };
+  if (Object.keys(apiKeys).length > 0) settings.apiKeys = apiKeys;
+  if (Object.keys(models).length > 0) settings.models = models;
+  return settings as Partial<UserSettings>;
+};
@@ -0,0 +1,86 @@
+import { Word, ReviewState, ReviewGrade } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const PASSING_GRADE = 3;
+
+export const createReviewState = (now: number = Date.now()): ReviewState => ({
+  dueAt: now,
+  interval: 0,
+  ease: INITIAL_EASE,
+  repetitions: 0,
+  lapses: 0,
+  lastReviewedAt: null,
+});
+
+export const getReviewState = (word: Word): ReviewState => word.review || createReviewState(word.createdAt);
+
+/**
+ * 将答题结果（0-100 分）映射为 SM-2 的 0-5 评分
+ */
+export const scoreToGrade = (score: number, isCorrect: boolean): ReviewGrade => {
+  if (score >= 95) return 5;
+  if (score >= 85) return 4;
+  if (isCorrect || score >= 70) return 3;
+  if (score >= 50) return 2;
+  if (score > 0) return 1;
+  return 0;
+};
+
+/**
+ * SM-2 调度：根据评分计算下一次复习的间隔、难度系数和到期时间
+ */
+export const scheduleReview = (
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): ReviewState => {
+  const ease = Math.max(MIN_EASE, state.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  if (grade < PASSING_GRADE) {
+    return {
+      dueAt: now + DAY_MS,
+      interval: 1,
+      ease,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      lastReviewedAt: now,
+    };
+  }
+
+  let interval: number;
+  if (state.repetitions === 0) {
+    interval = 1;
+  } else if (state.repetitions === 1) {
+    interval = 6;
+  } else {
+    interval = Math.round(state.interval * ease);
+  }
+
+  return {
+    dueAt: now + interval * DAY_MS,
+    interval,
+    ease,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    lastReviewedAt: now,
+  };
+};
+
+const endOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const isDue = (word: Word, now: number = Date.now()): boolean =>
+  getReviewState(word).dueAt <= endOfDay(now);
+
+/**
+ * 返回今天到期的单词，最早到期的排在前面
+ */
+export const getDueWords = (words: Word[], now: number = Date.now()): Word[] =>
+  words
+    .filter((w) => isDue(w, now))
+    .sort((a, b) => getReviewState(a).dueAt - getReviewState(b).dueAt);
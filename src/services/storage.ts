@@ -1,68 +1,662 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Word, Source, Song } from '../types';
+import { SQLiteDatabase } from 'expo-sqlite';
+import { Word, Source, Song, BlacklistItem, WrongAnswer, UserSettings, UserStats, StorageIssue, LibraryData, FactoryDraft, PendingImport } from '../types';
+import { getDatabase } from './database';
+import { normalizeSettings } from './settings';
+import { BACKFILL_SOURCE_SONG_IDS, FIX_CHINESE_SONG_LANGUAGE } from './migrations';
 
-const WORDS_KEY = '@melody_words';
-const SOURCES_KEY = '@melody_sources';
-const SONGS_KEY = '@melody_songs';
+const LEGACY_KEYS = {
+  stats: '@melody_stats',
+  words: '@melody_words',
+  sources: '@melody_sources',
+  songs: '@melody_songs',
+  blacklist: '@melody_blacklist',
+  settings: '@melody_settings',
+  wrongAnswers: '@melody_wrong_answers',
+};
+
+const STATS_META_KEY = 'stats';
+const LEGACY_IMPORTED_META_KEY = 'legacy_async_storage_imported';
+const FACTORY_DRAFT_META_KEY = 'factory_draft';
+const PENDING_IMPORT_META_KEY = 'pending_import';
+
+interface WordRow {
+  id: string;
+  word: string;
+  meaning: string;
+  example: string;
+  example_zh: string;
+  level: string;
+  is_mastered: number;
+  created_at: number;
+  review: string | null;
+}
+
+interface SourceRow {
+  id: string;
+  word_id: string;
+  song_id: string;
+  song_title: string;
+  artist: string;
+  lyric_sentence: string;
+  lyric_sentence_en: string;
+  lyric_translated: string;
+  replace_word: string;
+  lyric_time: number | null;
+  provenance: string | null;
+}
+
+interface SongRow {
+  id: string;
+  title: string;
+  artist: string;
+  language: Song['language'];
+  lyrics: string;
+  status: Song['status'];
+  created_at: number;
+  translation: string | null;
+  error: string | null;
+  timed_lines: string | null;
+}
+
+interface WrongAnswerRow {
+  id: string;
+  word_id: string;
+  word: string;
+  meaning: string;
+  user_answer: string;
+  correct_answer: string;
+  sentence: string;
+  sentence_en: string;
+  score: number;
+  feedback: string;
+  song_title: string;
+  created_at: number;
+  error_type: WrongAnswer['errorType'];
+}
+
+interface KeyValueRow {
+  key: string;
+  value: string;
+}
+
+interface LegacyBlob {
+  key: string;
+  raw: string | null;
+  value: unknown;
+  error?: string;
+}
+
+const issues: StorageIssue[] = [];
+
+const describeError = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * 解析单个 JSON 字段，失败时记录问题并返回默认值，不影响其它行的读取
+ */
+const parseJsonColumn = <T>(raw: string, fallback: T, source: string): T => {
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    issues.push({ source, message: describeError(error) });
+    return fallback;
+  }
+};
+
+const toWord = (row: WordRow): Word => ({
+  id: row.id,
+  word: row.word,
+  meaning: row.meaning,
+  example: row.example,
+  exampleZh: row.example_zh,
+  level: row.level,
+  isMastered: row.is_mastered === 1,
+  createdAt: row.created_at,
+  ...(row.review ? { review: parseJsonColumn(row.review, undefined, `words.review (${row.word})`) } : {}),
+});
+
+const toSource = (row: SourceRow): Source => ({
+  id: row.id,
+  wordId: row.word_id,
+  songId: row.song_id,
+  songTitle: row.song_title,
+  artist: row.artist,
+  lyricSentence: row.lyric_sentence,
+  lyricSentenceEn: row.lyric_sentence_en,
+  lyricTranslated: row.lyric_translated,
+  replaceWord: row.replace_word,
+  ...(row.lyric_time !== null ? { lyricTime: row.lyric_time } : {}),
+  ...(row.provenance ? { provenance: parseJsonColumn(row.provenance, undefined, `sources.provenance (${row.song_title})`) } : {}),
+});
+
+const toSong = (row: SongRow): Song => ({
+  id: row.id,
+  title: row.title,
+  artist: row.artist,
+  language: row.language,
+  lyrics: row.lyrics,
+  status: row.status,
+  createdAt: row.created_at,
+  ...(row.translation ? { translation: parseJsonColumn(row.translation, undefined, `songs.translation (${row.title})`) } : {}),
+  ...(row.error ? { error: row.error } : {}),
+  ...(row.timed_lines ? { timedLines: parseJsonColumn(row.timed_lines, undefined, `songs.timed_lines (${row.title})`) } : {}),
+});
+
+const toWrongAnswer = (row: WrongAnswerRow): WrongAnswer => ({
+  id: row.id,
+  wordId: row.word_id,
+  word: row.word,
+  meaning: row.meaning,
+  userAnswer: row.user_answer,
+  correctAnswer: row.correct_answer,
+  sentence: row.sentence,
+  sentenceEn: row.sentence_en,
+  score: row.score,
+  feedback: row.feedback,
+  songTitle: row.song_title,
+  createdAt: row.created_at,
+  errorType: row.error_type,
+});
+
+const writeWord = (db: SQLiteDatabase, word: Word) =>
+  db.runAsync(
+    `INSERT OR REPLACE INTO words (id, word, meaning, example, example_zh, level, is_mastered, created_at, review)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    word.id,
+    word.word,
+    word.meaning || '',
+    word.example || '',
+    word.exampleZh || '',
+    word.level || '',
+    word.isMastered ? 1 : 0,
+    word.createdAt || Date.now(),
+    word.review ? JSON.stringify(word.review) : null
+  );
+
+const writeSource = (db: SQLiteDatabase, source: Source) =>
+  db.runAsync(
+    `INSERT OR REPLACE INTO sources (id, word_id, song_id, song_title, artist, lyric_sentence, lyric_sentence_en, lyric_translated, replace_word, lyric_time, provenance)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    source.id,
+    source.wordId,
+    source.songId || '',
+    source.songTitle || '',
+    source.artist || '',
+    source.lyricSentence || '',
+    source.lyricSentenceEn || '',
+    source.lyricTranslated || '',
+    source.replaceWord || '',
+    source.lyricTime ?? null,
+    source.provenance ? JSON.stringify(source.provenance) : null
+  );
+
+const writeSong = (db: SQLiteDatabase, song: Song) =>
+  db.runAsync(
+    `INSERT OR REPLACE INTO songs (id, title, artist, language, lyrics, status, created_at, translation, error, timed_lines)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    song.id,
+    song.title,
+    song.artist || '',
+    song.language || 'zh',
+    song.lyrics || '',
+    song.status || 'completed',
+    song.createdAt || Date.now(),
+    song.translation ? JSON.stringify(song.translation) : null,
+    song.error || null,
+    song.timedLines?.length ? JSON.stringify(song.timedLines) : null
+  );
+
+const writeBlacklistItem = (db: SQLiteDatabase, item: BlacklistItem) =>
+  db.runAsync('INSERT OR REPLACE INTO blacklist (id, word) VALUES (?, ?)', item.id, item.word);
+
+const writeWrongAnswer = (db: SQLiteDatabase, item: WrongAnswer) =>
+  db.runAsync(
+    `INSERT OR REPLACE INTO wrong_answers (id, word_id, word, meaning, user_answer, correct_answer, sentence, sentence_en, score, feedback, song_title, created_at, error_type)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    item.id,
+    item.wordId,
+    item.word,
+    item.meaning || '',
+    item.userAnswer || '',
+    item.correctAnswer || '',
+    item.sentence || '',
+    item.sentenceEn || '',
+    item.score || 0,
+    item.feedback || '',
+    item.songTitle || '',
+    item.createdAt || Date.now(),
+    item.errorType || 'fill'
+  );
+
+const writeSettings = async (db: SQLiteDatabase, settings: Partial<UserSettings>) => {
+  for (const [key, value] of Object.entries(settings)) {
+    await db.runAsync('INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', key, JSON.stringify(value));
+  }
+};
+
+const writeMeta = (db: SQLiteDatabase, key: string, value: unknown) =>
+  db.runAsync('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)', key, JSON.stringify(value));
+
+const readMetaValue = async <T>(key: string, label: string): Promise<T | null> => {
+  try {
+    const db = await getDatabase();
+    const row = await db.getFirstAsync<KeyValueRow>('SELECT * FROM meta WHERE key = ?', key);
+    return row ? parseJsonColumn<T | null>(row.value, null, label) : null;
+  } catch (error) {
+    console.error(`Error getting ${label}:`, error);
+    return null;
+  }
+};
+
+/** value 为 null 时删除该项 */
+const writeMetaValue = async (key: string, value: unknown, label: string): Promise<void> => {
+  try {
+    const db = await getDatabase();
+    if (value === null) {
+      await db.runAsync('DELETE FROM meta WHERE key = ?', key);
+    } else {
+      await writeMeta(db, key, value);
+    }
+  } catch (error) {
+    console.error(`Error saving ${label}:`, error);
+  }
+};
+
+const placeholders = (count: number) => new Array(count).fill('?').join(', ');
+
+const readLegacyBlob = async (key: string): Promise<LegacyBlob> => {
+  const raw = await AsyncStorage.getItem(key);
+  if (!raw) return { key, raw, value: null };
+  try {
+    return { key, raw, value: JSON.parse(raw) };
+  } catch (error) {
+    return { key, raw, value: null, error: describeError(error) };
+  }
+};
+
+const asArray = <T>(blob: LegacyBlob): T[] => {
+  if (blob.value === null) return [];
+  if (Array.isArray(blob.value)) return blob.value;
+  blob.error = 'Expected a JSON array';
+  return [];
+};
+
+/**
+ * 保留无法读取的原始数据，避免静默丢失，之后可以手动恢复
+ */
+const saveForRecovery = async (db: SQLiteDatabase, source: string, raw: string, error: string) => {
+  issues.push({ source, message: error });
+  await db.runAsync(
+    'INSERT INTO recovery (source, raw, error, created_at) VALUES (?, ?, ?, ?)',
+    source,
+    raw,
+    error,
+    Date.now()
+  );
+};
 
 export const StorageService = {
+  /**
+   * 首次启动时把旧版 AsyncStorage 中的 JSON 数据导入 SQLite，只执行一次
+   */
+  async importLegacyData(): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const imported = await db.getFirstAsync<KeyValueRow>('SELECT * FROM meta WHERE key = ?', LEGACY_IMPORTED_META_KEY);
+      if (imported) return;
+
+      const blobs = await Promise.all(Object.values(LEGACY_KEYS).map(readLegacyBlob));
+      const blobFor = (key: string) => blobs.find((blob) => blob.key === key)!;
+
+      const words = asArray<Word>(blobFor(LEGACY_KEYS.words));
+      const sources = asArray<Source>(blobFor(LEGACY_KEYS.sources));
+      const songs = asArray<Song>(blobFor(LEGACY_KEYS.songs));
+      const blacklist = asArray<BlacklistItem>(blobFor(LEGACY_KEYS.blacklist));
+      const wrongAnswers = asArray<WrongAnswer>(blobFor(LEGACY_KEYS.wrongAnswers));
+      const settings = blobFor(LEGACY_KEYS.settings).value as Partial<UserSettings> | null;
+      const stats = blobFor(LEGACY_KEYS.stats).value as UserStats | null;
+
+      await db.withTransactionAsync(async () => {
+        for (const blob of blobs) {
+          if (blob.error && blob.raw) await saveForRecovery(db, blob.key, blob.raw, blob.error);
+        }
+        for (const word of words) await writeWord(db, word);
+        for (const source of sources) await writeSource(db, source);
+        for (const song of songs) await writeSong(db, song);
+        for (const item of blacklist) await writeBlacklistItem(db, item);
+        for (const item of wrongAnswers) await writeWrongAnswer(db, item);
+        if (settings) await writeSettings(db, settings);
+        if (stats) await writeMeta(db, STATS_META_KEY, stats);
+        // 迁移在导入旧数据之前就已执行，这里对导入的数据再做一遍
+        await db.execAsync(BACKFILL_SOURCE_SONG_IDS);
+        await db.execAsync(FIX_CHINESE_SONG_LANGUAGE);
+        await writeMeta(db, LEGACY_IMPORTED_META_KEY, Date.now());
+      });
+    } catch (error) {
+      console.error('Error importing legacy data:', error);
+      issues.push({ source: 'legacy import', message: describeError(error) });
+    }
+  },
+
+  getIssues(): StorageIssue[] {
+    return [...issues];
+  },
+
   async getWords(): Promise<Word[]> {
     try {
-      const data = await AsyncStorage.getItem(WORDS_KEY);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<WordRow>('SELECT * FROM words ORDER BY created_at');
+      return rows.map(toWord);
     } catch (error) {
       console.error('Error getting words:', error);
       return [];
     }
   },
 
-  async saveWords(words: Word[]): Promise<void> {
+  async findWord(word: string): Promise<Word | null> {
     try {
-      await AsyncStorage.setItem(WORDS_KEY, JSON.stringify(words));
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<WordRow>('SELECT * FROM words WHERE word = ? COLLATE NOCASE', word);
+      return row ? toWord(row) : null;
     } catch (error) {
-      console.error('Error saving words:', error);
+      console.error('Error finding word:', error);
+      return null;
+    }
+  },
+
+  async saveWord(word: Word): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeWord(db, word);
+    } catch (error) {
+      console.error('Error saving word:', error);
+    }
+  },
+
+  async deleteWords(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    try {
+      const db = await getDatabase();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync(`DELETE FROM sources WHERE word_id IN (${placeholders(ids.length)})`, ids);
+        await db.runAsync(`DELETE FROM words WHERE id IN (${placeholders(ids.length)})`, ids);
+      });
+    } catch (error) {
+      console.error('Error deleting words:', error);
     }
   },
 
   async getSources(): Promise<Source[]> {
     try {
-      const data = await AsyncStorage.getItem(SOURCES_KEY);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SourceRow>('SELECT * FROM sources ORDER BY rowid');
+      return rows.map(toSource);
     } catch (error) {
       console.error('Error getting sources:', error);
       return [];
     }
   },
 
-  async saveSources(sources: Source[]): Promise<void> {
+  async getSourcesForWord(wordId: string): Promise<Source[]> {
     try {
-      await AsyncStorage.setItem(SOURCES_KEY, JSON.stringify(sources));
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SourceRow>('SELECT * FROM sources WHERE word_id = ? ORDER BY rowid', wordId);
+      return rows.map(toSource);
     } catch (error) {
-      console.error('Error saving sources:', error);
+      console.error('Error getting sources for word:', error);
+      return [];
+    }
+  },
+
+  async getSourcesForSong(songId: string): Promise<Source[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SourceRow>('SELECT * FROM sources WHERE song_id = ? ORDER BY rowid', songId);
+      return rows.map(toSource);
+    } catch (error) {
+      console.error('Error getting sources for song:', error);
+      return [];
+    }
+  },
+
+  async saveSource(source: Source): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeSource(db, source);
+    } catch (error) {
+      console.error('Error saving source:', error);
     }
   },
 
   async getSongs(): Promise<Song[]> {
     try {
-      const data = await AsyncStorage.getItem(SONGS_KEY);
-      return data ? JSON.parse(data) : [];
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<SongRow>('SELECT * FROM songs ORDER BY created_at');
+      return rows.map(toSong);
     } catch (error) {
       console.error('Error getting songs:', error);
       return [];
     }
   },
 
-  async saveSongs(songs: Song[]): Promise<void> {
+  async saveSong(song: Song): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeSong(db, song);
+    } catch (error) {
+      console.error('Error saving song:', error);
+    }
+  },
+
+  /**
+   * 删除歌曲及其全部来源，并删除不再被任何来源引用的单词
+   */
+  async deleteSong(songId: string, orphanWordIds: string[]): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM sources WHERE song_id = ?', songId);
+        if (orphanWordIds.length > 0) {
+          await db.runAsync(`DELETE FROM words WHERE id IN (${placeholders(orphanWordIds.length)})`, orphanWordIds);
+        }
+        await db.runAsync('DELETE FROM songs WHERE id = ?', songId);
+      });
+    } catch (error) {
+      console.error('Error deleting song:', error);
+    }
+  },
+
+  /**
+   * 在一个事务中保存歌曲及其新单词、新来源，同时删除被替换的来源和因此不再被引用的单词。
+   * clearPendingImport 为 true 时一并清除未完成导入的记录和 Factory 草稿
+   */
+  async commitSongWords(
+    song: Song,
+    words: Word[],
+    sources: Source[],
+    removedSourceIds: string[] = [],
+    orphanWordIds: string[] = [],
+    clearPendingImport = false
+  ): Promise<void> {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      if (clearPendingImport) {
+        await db.runAsync('DELETE FROM meta WHERE key IN (?, ?)', PENDING_IMPORT_META_KEY, FACTORY_DRAFT_META_KEY);
+      }
+      if (removedSourceIds.length > 0) {
+        await db.runAsync(`DELETE FROM sources WHERE id IN (${placeholders(removedSourceIds.length)})`, removedSourceIds);
+      }
+      if (orphanWordIds.length > 0) {
+        await db.runAsync(`DELETE FROM words WHERE id IN (${placeholders(orphanWordIds.length)})`, orphanWordIds);
+      }
+      await writeSong(db, song);
+      for (const word of words) await writeWord(db, word);
+      for (const source of sources) await writeSource(db, source);
+    });
+  },
+
+  async getBlacklist(): Promise<BlacklistItem[]> {
+    try {
+      const db = await getDatabase();
+      return await db.getAllAsync<BlacklistItem>('SELECT id, word FROM blacklist ORDER BY rowid');
+    } catch (error) {
+      console.error('Error getting blacklist:', error);
+      return [];
+    }
+  },
+
+  async saveBlacklistItem(item: BlacklistItem): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeBlacklistItem(db, item);
+    } catch (error) {
+      console.error('Error saving blacklist item:', error);
+    }
+  },
+
+  async deleteBlacklistItem(id: string): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync('DELETE FROM blacklist WHERE id = ?', id);
+    } catch (error) {
+      console.error('Error deleting blacklist item:', error);
+    }
+  },
+
+  async getWrongAnswers(): Promise<WrongAnswer[]> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<WrongAnswerRow>('SELECT * FROM wrong_answers ORDER BY created_at');
+      return rows.map(toWrongAnswer);
+    } catch (error) {
+      console.error('Error getting wrong answers:', error);
+      return [];
+    }
+  },
+
+  async saveWrongAnswer(item: WrongAnswer): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeWrongAnswer(db, item);
+    } catch (error) {
+      console.error('Error saving wrong answer:', error);
+    }
+  },
+
+  async deleteWrongAnswer(id: string): Promise<void> {
     try {
-      await AsyncStorage.setItem(SONGS_KEY, JSON.stringify(songs));
+      const db = await getDatabase();
+      await db.runAsync('DELETE FROM wrong_answers WHERE id = ?', id);
     } catch (error) {
-      console.error('Error saving songs:', error);
+      console.error('Error deleting wrong answer:', error);
     }
   },
 
+  async clearWrongAnswers(): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.runAsync('DELETE FROM wrong_answers');
+    } catch (error) {
+      console.error('Error clearing wrong answers:', error);
+    }
+  },
+
+  async getSettings(): Promise<Partial<UserSettings> | null> {
+    try {
+      const db = await getDatabase();
+      const rows = await db.getAllAsync<KeyValueRow>('SELECT * FROM settings');
+      if (rows.length === 0) return null;
+      const settings: Record<string, unknown> = {};
+      for (const row of rows) {
+        const value = parseJsonColumn<unknown>(row.value, undefined, `settings.${row.key}`);
+        if (value !== undefined) settings[row.key] = value;
+      }
+      return normalizeSettings(settings);
+    } catch (error) {
+      console.error('Error getting settings:', error);
+      return null;
+    }
+  },
+
+  async saveSettings(settings: Partial<UserSettings>): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await db.withTransactionAsync(() => writeSettings(db, settings));
+    } catch (error) {
+      console.error('Error saving settings:', error);
+    }
+  },
+
+  async getStats(): Promise<UserStats | null> {
+    try {
+      const db = await getDatabase();
+      const row = await db.getFirstAsync<KeyValueRow>('SELECT * FROM meta WHERE key = ?', STATS_META_KEY);
+      return row ? parseJsonColumn<UserStats | null>(row.value, null, 'stats') : null;
+    } catch (error) {
+      console.error('Error getting stats:', error);
+      return null;
+    }
+  },
+
+  async saveStats(stats: UserStats): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await writeMeta(db, STATS_META_KEY, stats);
+    } catch (error) {
+      console.error('Error saving stats:', error);
+    }
+  },
+
+  async getFactoryDraft(): Promise<FactoryDraft | null> {
+    return readMetaValue<FactoryDraft>(FACTORY_DRAFT_META_KEY, 'factory draft');
+  },
+
+  /** draft 为 null 时删除草稿 */
+  async saveFactoryDraft(draft: FactoryDraft | null): Promise<void> {
+    await writeMetaValue(FACTORY_DRAFT_META_KEY, draft, 'factory draft');
+  },
+
+  async getPendingImport(): Promise<PendingImport | null> {
+    return readMetaValue<PendingImport>(PENDING_IMPORT_META_KEY, 'pending import');
+  },
+
+  /** pendingImport 为 null 时删除记录 */
+  async savePendingImport(pendingImport: PendingImport | null): Promise<void> {
+    await writeMetaValue(PENDING_IMPORT_META_KEY, pendingImport, 'pending import');
+  },
+
+  /**
+   * 在一个事务中写入整批词库数据；replace 为 true 时先清空现有词库
+   */
+  async importLibrary(library: LibraryData, replace: boolean): Promise<void> {
+    const db = await getDatabase();
+    await db.withTransactionAsync(async () => {
+      if (replace) {
+        await db.runAsync('DELETE FROM words');
+        await db.runAsync('DELETE FROM sources');
+        await db.runAsync('DELETE FROM songs');
+        await db.runAsync('DELETE FROM blacklist');
+        await db.runAsync('DELETE FROM wrong_answers');
+      }
+      for (const word of library.words) await writeWord(db, word);
+      for (const source of library.sources) await writeSource(db, source);
+      for (const song of library.songs) await writeSong(db, song);
+      for (const item of library.blacklist) await writeBlacklistItem(db, item);
+      for (const item of library.wrongAnswers) await writeWrongAnswer(db, item);
+    });
+  },
+
   async clearAll(): Promise<void> {
     try {
-      await AsyncStorage.multiRemove([WORDS_KEY, SOURCES_KEY, SONGS_KEY]);
+      const db = await getDatabase();
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM words');
+        await db.runAsync('DELETE FROM sources');
+        await db.runAsync('DELETE FROM songs');
+        await db.runAsync('DELETE FROM wrong_answers');
+        await db.runAsync('DELETE FROM meta WHERE key = ?', STATS_META_KEY);
+      });
     } catch (error) {
       console.error('Error clearing data:', error);
     }
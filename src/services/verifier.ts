@@ -0,0 +1,39 @@
+import { ExtractedWord, RejectedItem, SongLanguage } from '../types';
+import { findWordForm } from './lemmatizer';
+import { matchReplaceWord } from './languages';
+
+/**
+ * 检查一条提取结果：word（或其屈折形式）要出现在 sentenceEn 中，
+ * replaceWord 要出现在 sentence 中。通过时返回 null，否则返回原因
+ */
+export const verifyExtractedWord = (item: ExtractedWord, language: SongLanguage = 'zh'): string | null => {
+  if (!findWordForm(item.word, item.sentenceEn)) {
+    return `"${item.word}" does not appear in "${item.sentenceEn}"`;
+  }
+  if (!matchReplaceWord(item.sentence, item.replaceWord, language)) {
+    return `"${item.replaceWord}" does not appear in "${item.sentence}"`;
+  }
+  return null;
+};
+
+/**
+ * 保存前过滤提取结果，不通过的条目连同原因一起返回。
+ * 通过的条目 replaceWord 改成原句中的实际写法，方便挖空
+ */
+export const verifyExtractedWords = (
+  items: ExtractedWord[],
+  language: SongLanguage = 'zh'
+): { words: ExtractedWord[]; rejected: RejectedItem[] } => {
+  const words: ExtractedWord[] = [];
+  const rejected: RejectedItem[] = [];
+  items.forEach((item, index) => {
+    const reason = verifyExtractedWord(item, language);
+    if (reason) {
+      rejected.push({ index, word: item.word, reason });
+    } else {
+      const replaceWord = matchReplaceWord(item.sentence, item.replaceWord, language) || item.replaceWord;
+      words.push({ ...item, replaceWord });
+    }
+  });
+  return { words, rejected };
+};
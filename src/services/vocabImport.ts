@@ -0,0 +1,200 @@
+import { Word, Source } from '../types';
+import { pickTextFile } from './fileTransfer';
+
+const VALID_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+const DEFAULT_LEVEL = 'B2';
+
+const COLUMN_ALIASES: Record<string, string> = {
+  word: 'word',
+  meaning: 'meaning',
+  level: 'level',
+  example: 'example',
+  examplezh: 'exampleZh',
+  example_zh: 'exampleZh',
+  sentence: 'sentence',
+  source: 'sentence',
+  sourcesentence: 'sentence',
+  source_sentence: 'sentence',
+};
+
+const DEFAULT_COLUMNS = ['word', 'meaning', 'level', 'example', 'exampleZh', 'sentence'];
+
+export interface RejectedRow {
+  row: number;
+  reason: string;
+}
+
+export interface VocabularyImportResult {
+  words: Word[];
+  sources: Source[];
+  merged: number;
+  rejected: RejectedRow[];
+}
+
+/**
+ * 解析 CSV/TSV 文本，支持双引号包裹和转义（""），根据首行是否含制表符判断分隔符
+ */
+export const parseDelimited = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t') ? '\t' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findWordInSentence = (word: string, sentence: string): string | null => {
+  const match = sentence.match(new RegExp(`\\b${escapeRegExp(word)}\\w*`, 'i'));
+  return match ? match[0] : null;
+};
+
+/**
+ * 把词表转换为单词和来源。已存在的单词只补充新的来源（与 Factory 一致按小写 word 去重），
+ * 每个单词都会附带一条合成来源，保证 Arena 有句子可以挖空
+ */
+export const parseVocabularyList = (
+  text: string,
+  existingWords: Word[],
+  existingSources: Source[],
+  listName: string
+): VocabularyImportResult => {
+  const rows = parseDelimited(text);
+  const result: VocabularyImportResult = { words: [], sources: [], merged: 0, rejected: [] };
+  if (rows.length === 0) return result;
+
+  let columns = DEFAULT_COLUMNS;
+  let startIndex = 0;
+  const headerCells = rows[0].map((cell) => cell.trim().toLowerCase().replace(/\s+/g, ''));
+  if (headerCells.includes('word')) {
+    columns = headerCells.map((cell) => COLUMN_ALIASES[cell] || '');
+    startIndex = 1;
+  }
+
+  const knownWords = new Map(existingWords.map((w) => [w.word.toLowerCase(), w]));
+  const seenInFile = new Set<string>();
+  const now = Date.now();
+
+  for (let i = startIndex; i < rows.length; i++) {
+    const rowNumber = i + 1;
+    const cells = rows[i];
+    if (cells.every((cell) => !cell.trim())) continue;
+
+    const record: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) record[column] = (cells[index] || '').trim();
+    });
+
+    const word = (record.word || '').toLowerCase();
+    const meaning = record.meaning || '';
+    const level = (record.level || DEFAULT_LEVEL).toUpperCase();
+    const example = record.example || '';
+    const sentence = record.sentence || example;
+
+    if (!word) {
+      result.rejected.push({ row: rowNumber, reason: 'missing word' });
+      continue;
+    }
+    if (!/^[a-z][a-z' -]*$/.test(word)) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" is not an English word` });
+      continue;
+    }
+    if (!meaning) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" has no meaning` });
+      continue;
+    }
+    if (!VALID_LEVELS.includes(level)) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" has invalid level "${record.level}"` });
+      continue;
+    }
+    if (seenInFile.has(word)) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" is duplicated in the file` });
+      continue;
+    }
+    if (!sentence) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" needs an example or source sentence` });
+      continue;
+    }
+    const matchedWord = findWordInSentence(word, sentence);
+    if (!matchedWord) {
+      result.rejected.push({ row: rowNumber, reason: `"${word}" does not appear in its sentence` });
+      continue;
+    }
+    seenInFile.add(word);
+
+    const existing = knownWords.get(word);
+    const wordId = existing ? existing.id : `${now}-${i}-${Math.random()}`;
+    if (!existing) {
+      result.words.push({
+        id: wordId,
+        word,
+        meaning,
+        example,
+        exampleZh: record.exampleZh || '',
+        level,
+        isMastered: false,
+        createdAt: now,
+      });
+    } else {
+      result.merged++;
+    }
+
+    // 只有例句译文里确实出现了某个释义时才用译文挖空，否则用英文句子挖掉单词本身
+    const translatedWord = sentence === example && record.exampleZh
+      ? meaning.split(/[:：;；,，、/]/).map((part) => part.trim()).find((part) => part && record.exampleZh.includes(part))
+      : undefined;
+    const lyricSentence = translatedWord ? record.exampleZh : sentence;
+    const isDuplicate = existingSources.some((s) => s.wordId === wordId && s.lyricSentence === lyricSentence);
+    if (isDuplicate) continue;
+
+    result.sources.push({
+      id: `${now}-${i}-${Math.random()}`,
+      wordId,
+      songId: '',
+      songTitle: listName,
+      artist: '',
+      lyricSentence,
+      lyricSentenceEn: sentence,
+      lyricTranslated: meaning,
+      replaceWord: translatedWord || matchedWord,
+    });
+  }
+
+  return result;
+};
+
+export const pickVocabularyFile = async (): Promise<{ name: string; text: string } | null> =>
+  pickTextFile(['text/csv', 'text/comma-separated-values', 'text/tab-separated-values', 'text/plain']);
@@ -1,14 +1,15 @@
 import { create } from 'zustand';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Word, Source, Song, BlacklistItem, UserStats, UserSettings, DEFAULT_SETTINGS, WrongAnswer } from '../types';
+import { Word, Source, Song, BlacklistItem, UserStats, UserSettings, DEFAULT_SETTINGS, WrongAnswer, ReviewGrade, StorageIssue, LibraryBackup, ImportMode, FactoryDraft, PendingImport } from '../types';
+import { getReviewState, scheduleReview } from '../services/srs';
+import { StorageService } from '../services/storage';
+import { mergeLibrary } from '../services/backup';
+import { extractSongWords, buildLibraryEntries, IMPORT_QUEUE_CONCURRENCY } from '../services/extraction';
 
-const STATS_KEY = '@melody_stats';
-const WORDS_KEY = '@melody_words';
-const SOURCES_KEY = '@melody_sources';
-const SONGS_KEY = '@melody_songs';
-const BLACKLIST_KEY = '@melody_blacklist';
-const SETTINGS_KEY = '@melody_settings';
-const WRONG_ANSWERS_KEY = '@melody_wrong_answers';
+/** 导入队列是否正在运行，以及正在处理的歌曲对应的 AbortController */
+let queueRunning = false;
+const queueControllers = new Map<string, AbortController>();
+/** 保存提取结果的操作依次执行，避免两次保存基于同一份旧词库去重 */
+let commitChain: Promise<void> = Promise.resolve();
 
 interface AppState {
   words: Word[];
@@ -19,11 +20,34 @@ interface AppState {
   stats: UserStats;
   settings: UserSettings;
   isLoading: boolean;
+  storageIssues: StorageIssue[];
+  /** 启动时读取的 Factory 草稿，只用于恢复表单 */
+  factoryDraft: FactoryDraft | null;
+  pendingImport: PendingImport | null;
+  /** 最近一次从确认页保存导入的时间，Factory 据此清空表单 */
+  lastImportSavedAt: number;
 
   addWord: (word: Word) => void;
   addSource: (source: Source) => void;
   addSong: (song: Song) => void;
+  addWords: (words: Word[], sources: Source[]) => Promise<void>;
   updateWord: (id: string, updates: Partial<Word>) => void;
+  removeWords: (ids: string[]) => Promise<void>;
+  updateSong: (id: string, updates: Partial<Song>) => Promise<void>;
+  removeSong: (songId: string) => Promise<void>;
+  commitSongWords: (
+    song: Song,
+    words: Word[],
+    sources: Source[],
+    replace: boolean,
+    completesPendingImport?: boolean
+  ) => Promise<void>;
+  saveFactoryDraft: (draft: FactoryDraft | null) => Promise<void>;
+  setPendingImport: (pendingImport: PendingImport | null) => Promise<void>;
+  enqueueSongs: (songs: Song[]) => Promise<void>;
+  retrySong: (songId: string) => Promise<void>;
+  processQueue: () => Promise<void>;
+  reviewWord: (id: string, grade: ReviewGrade) => Promise<void>;
   addToBlacklist: (word: string) => void;
   removeFromBlacklist: (id: string) => void;
   addWrongAnswer: (wrongAnswer: WrongAnswer) => Promise<void>;
@@ -33,6 +57,7 @@ interface AppState {
   updateStats: (total: number, mastered: number) => void;
   getSourcesForWord: (wordId: string) => Source[];
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
+  importLibrary: (backup: LibraryBackup, mode: ImportMode) => Promise<void>;
   clearAllData: () => Promise<void>;
 }
 
@@ -50,29 +75,219 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
   settings: DEFAULT_SETTINGS,
   isLoading: true,
+  storageIssues: [],
+  factoryDraft: null,
+  pendingImport: null,
+  lastImportSavedAt: 0,
 
-  addWord: (word) => set((state) => {
-    const newWords = [...state.words, word];
-    AsyncStorage.setItem(WORDS_KEY, JSON.stringify(newWords));
-    return { words: newWords };
-  }),
+  addWord: (word) => {
+    set((state) => ({ words: [...state.words, word] }));
+    StorageService.saveWord(word);
+  },
 
-  addSource: (source) => set((state) => {
-    const newSources = [...state.sources, source];
-    AsyncStorage.setItem(SOURCES_KEY, JSON.stringify(newSources));
-    return { sources: newSources };
-  }),
+  addSource: (source) => {
+    set((state) => ({ sources: [...state.sources, source] }));
+    StorageService.saveSource(source);
+  },
 
-  addSong: (song) => set((state) => {
-    const newSongs = [...state.songs, song];
-    AsyncStorage.setItem(SONGS_KEY, JSON.stringify(newSongs));
-    return { songs: newSongs };
-  }),
+  addSong: (song) => {
+    set((state) => ({ songs: [...state.songs, song] }));
+    StorageService.saveSong(song);
+  },
+
+  addWords: async (words, sources) => {
+    await StorageService.importLibrary({ words, sources, songs: [], blacklist: [], wrongAnswers: [] }, false);
+    set((state) => ({
+      words: [...state.words, ...words],
+      sources: [...state.sources, ...sources],
+    }));
+  },
 
   updateWord: async (id, updates) => {
     const newWords = get().words.map((w) => (w.id === id ? { ...w, ...updates } : w));
     set({ words: newWords });
-    await AsyncStorage.setItem(WORDS_KEY, JSON.stringify(newWords));
+    const updated = newWords.find((w) => w.id === id);
+    if (updated) await StorageService.saveWord(updated);
+  },
+
+  removeWords: async (ids) => {
+    set((state) => ({
+      words: state.words.filter((w) => !ids.includes(w.id)),
+      sources: state.sources.filter((s) => !ids.includes(s.wordId)),
+    }));
+    await StorageService.deleteWords(ids);
+  },
+
+  updateSong: async (id, updates) => {
+    const newSongs = get().songs.map((s) => (s.id === id ? { ...s, ...updates } : s));
+    set({ songs: newSongs });
+    const updated = newSongs.find((s) => s.id === id);
+    if (updated) await StorageService.saveSong(updated);
+  },
+
+  removeSong: async (songId) => {
+    queueControllers.get(songId)?.abort();
+    const { songs, sources, words } = get();
+    const songWordIds = new Set(sources.filter((s) => s.songId === songId).map((s) => s.wordId));
+    const remainingSources = sources.filter((s) => s.songId !== songId);
+    const otherWordIds = new Set(remainingSources.map((s) => s.wordId));
+    const orphanWordIds = [...songWordIds].filter((id) => !otherWordIds.has(id));
+
+    set({
+      songs: songs.filter((s) => s.id !== songId),
+      sources: remainingSources,
+      words: words.filter((w) => !orphanWordIds.includes(w.id)),
+    });
+    await StorageService.deleteSong(songId, orphanWordIds);
+  },
+
+  /**
+   * 在一个事务中保存歌曲和提取结果：replace 时先移除这首歌原有的来源，以及只出现在这些来源里的单词。
+   * completesPendingImport 时未完成导入的记录和 Factory 草稿随同一事务清除。
+   * 多次保存依次进行，每次都按当时的词库去重，保存完成后只把这次的改动合并进 state
+   */
+  commitSongWords: (song, newWords, newSources, replace, completesPendingImport = false) => {
+    const run = async () => {
+      const { sources, words } = get();
+      // 队列或确认页在这期间可能已经加入了同一个单词，改用已有的那个
+      const existingWordIds = new Map(words.map((w) => [w.word.toLowerCase(), w.id]));
+      const remappedIds = new Map<string, string>();
+      const addedWords = newWords.filter((w) => {
+        const existingId = existingWordIds.get(w.word.toLowerCase());
+        if (existingId) remappedIds.set(w.id, existingId);
+        return !existingId;
+      });
+
+      const removedIds = new Set(replace ? sources.filter((s) => s.songId === song.id).map((s) => s.id) : []);
+      const keptSources = sources.filter((s) => !removedIds.has(s.id));
+      const addedSources = newSources
+        .map((s) => (remappedIds.has(s.wordId) ? { ...s, wordId: remappedIds.get(s.wordId)! } : s))
+        .filter(
+          (s) => !keptSources.some((k) => k.wordId === s.wordId && k.songId === s.songId && k.lyricSentence === s.lyricSentence)
+        );
+      const referencedWordIds = new Set([...keptSources, ...addedSources].map((s) => s.wordId));
+      const orphanWordIds = [...new Set(sources.filter((s) => removedIds.has(s.id)).map((s) => s.wordId))].filter(
+        (id) => !referencedWordIds.has(id)
+      );
+
+      await StorageService.commitSongWords(
+        song,
+        addedWords,
+        addedSources,
+        [...removedIds],
+        orphanWordIds,
+        completesPendingImport
+      );
+      set((state) => ({
+        ...(completesPendingImport ? { pendingImport: null, factoryDraft: null, lastImportSavedAt: Date.now() } : {}),
+        songs: state.songs.some((s) => s.id === song.id)
+          ? state.songs.map((s) => (s.id === song.id ? song : s))
+          : [...state.songs, song],
+        sources: [...state.sources.filter((s) => !removedIds.has(s.id)), ...addedSources],
+        words: [...state.words.filter((w) => !orphanWordIds.includes(w.id)), ...addedWords],
+      }));
+    };
+
+    const committed = commitChain.then(run);
+    commitChain = committed.catch(() => {});
+    return committed;
+  },
+
+  saveFactoryDraft: async (draft) => {
+    await StorageService.saveFactoryDraft(draft);
+  },
+
+  setPendingImport: async (pendingImport) => {
+    set({ pendingImport });
+    await StorageService.savePendingImport(pendingImport);
+  },
+
+  enqueueSongs: async (newSongs) => {
+    set((state) => ({ songs: [...state.songs, ...newSongs] }));
+    for (const song of newSongs) await StorageService.saveSong(song);
+    get().processQueue();
+  },
+
+  retrySong: async (songId) => {
+    await get().updateSong(songId, { status: 'pending', error: undefined });
+    get().processQueue();
+  },
+
+  /**
+   * 依次处理 pending 的歌曲，最多 IMPORT_QUEUE_CONCURRENCY 首同时进行。
+   * 队列中的歌曲不经过确认页，提取出的单词全部保存；失败的歌曲标记为 failed 等待重试
+   */
+  processQueue: async () => {
+    if (queueRunning) return;
+    queueRunning = true;
+
+    const worker = async () => {
+      let song: Song | undefined;
+      while ((song = get().songs.find((s) => s.status === 'pending'))) {
+        const controller = new AbortController();
+        queueControllers.set(song.id, controller);
+        // 先同步改成 processing，另一个 worker 不会再取到这首歌
+        const saving = get().updateSong(song.id, { status: 'processing', error: undefined });
+        try {
+          await saving;
+          const { settings, blacklist } = get();
+          const result = await extractSongWords(
+            { title: song.title, lyrics: song.lyrics, language: song.language },
+            blacklist.map((b) => b.word),
+            settings,
+            controller.signal
+          );
+          // 处理期间歌曲被删除
+          const current = get().songs.find((s) => s.id === song!.id);
+          if (result.cancelled || !current) continue;
+          if (result.error) throw new Error(result.error);
+
+          const { newWords, newSources } = buildLibraryEntries(
+            result.words,
+            {
+              songId: current.id,
+              songTitle: current.title,
+              artist: current.artist,
+              language: current.language,
+              timedLines: current.timedLines || [],
+              provenance: result.provenance,
+            },
+            get().words,
+            get().sources
+          );
+          const completed: Song = {
+            ...current,
+            status: 'completed',
+            error: undefined,
+            ...(result.translation ? { translation: result.translation } : {}),
+          };
+          await get().commitSongWords(completed, newWords, newSources, false);
+        } catch (error: any) {
+          console.error('Queued import error:', error);
+          if (get().songs.some((s) => s.id === song!.id)) {
+            await get().updateSong(song.id, { status: 'failed', error: error?.message || 'Unknown error' });
+          }
+        } finally {
+          queueControllers.delete(song.id);
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: IMPORT_QUEUE_CONCURRENCY }, worker));
+    } finally {
+      queueRunning = false;
+    }
+  },
+
+  reviewWord: async (id, grade) => {
+    const now = Date.now();
+    const newWords = get().words.map((w) =>
+      w.id === id ? { ...w, review: scheduleReview(getReviewState(w), grade, now) } : w
+    );
+    set({ words: newWords });
+    const reviewed = newWords.find((w) => w.id === id);
+    if (reviewed) await StorageService.saveWord(reviewed);
   },
 
   addToBlacklist: async (word) => {
@@ -80,66 +295,82 @@ export const useAppStore = create<AppState>((set, get) => ({
       id: Date.now().toString(),
       word: word.toLowerCase(),
     };
-    const newBlacklist = [...get().blacklist, newItem];
-    set({ blacklist: newBlacklist });
-    await AsyncStorage.setItem(BLACKLIST_KEY, JSON.stringify(newBlacklist));
+    set({ blacklist: [...get().blacklist, newItem] });
+    await StorageService.saveBlacklistItem(newItem);
   },
 
   removeFromBlacklist: async (id) => {
-    const newBlacklist = get().blacklist.filter((item) => item.id !== id);
-    set({ blacklist: newBlacklist });
-    await AsyncStorage.setItem(BLACKLIST_KEY, JSON.stringify(newBlacklist));
+    set({ blacklist: get().blacklist.filter((item) => item.id !== id) });
+    await StorageService.deleteBlacklistItem(id);
   },
 
   addWrongAnswer: async (wrongAnswer) => {
-    const newWrongAnswers = [...get().wrongAnswers, wrongAnswer];
-    set({ wrongAnswers: newWrongAnswers });
-    await AsyncStorage.setItem(WRONG_ANSWERS_KEY, JSON.stringify(newWrongAnswers));
+    set({ wrongAnswers: [...get().wrongAnswers, wrongAnswer] });
+    await StorageService.saveWrongAnswer(wrongAnswer);
   },
 
   removeWrongAnswer: async (id) => {
-    const newWrongAnswers = get().wrongAnswers.filter((item) => item.id !== id);
-    set({ wrongAnswers: newWrongAnswers });
-    await AsyncStorage.setItem(WRONG_ANSWERS_KEY, JSON.stringify(newWrongAnswers));
+    set({ wrongAnswers: get().wrongAnswers.filter((item) => item.id !== id) });
+    await StorageService.deleteWrongAnswer(id);
   },
 
   clearWrongAnswers: async () => {
     set({ wrongAnswers: [] });
-    await AsyncStorage.setItem(WRONG_ANSWERS_KEY, JSON.stringify([]));
+    await StorageService.clearWrongAnswers();
   },
 
   loadData: async () => {
     try {
-      const [statsData, wordsData, sourcesData, songsData, blacklistData, settingsData, wrongAnswersData] = await Promise.all([
-        AsyncStorage.getItem(STATS_KEY),
-        AsyncStorage.getItem(WORDS_KEY),
-        AsyncStorage.getItem(SOURCES_KEY),
-        AsyncStorage.getItem(SONGS_KEY),
-        AsyncStorage.getItem(BLACKLIST_KEY),
-        AsyncStorage.getItem(SETTINGS_KEY),
-        AsyncStorage.getItem(WRONG_ANSWERS_KEY),
+      await StorageService.importLegacyData();
+
+      const [stats, words, sources, songs, blacklist, settings, wrongAnswers, factoryDraft, pendingImport] = await Promise.all([
+        StorageService.getStats(),
+        StorageService.getWords(),
+        StorageService.getSources(),
+        StorageService.getSongs(),
+        StorageService.getBlacklist(),
+        StorageService.getSettings(),
+        StorageService.getWrongAnswers(),
+        StorageService.getFactoryDraft(),
+        StorageService.getPendingImport(),
       ]);
 
+      // 上次退出时正在处理的歌曲重新排队
+      const interrupted = songs.filter((s) => s.status === 'processing');
+      for (const song of interrupted) {
+        song.status = 'pending';
+        await StorageService.saveSong(song);
+      }
+
       set({
-        stats: statsData ? JSON.parse(statsData) : get().stats,
-        words: wordsData ? JSON.parse(wordsData) : [],
-        sources: sourcesData ? JSON.parse(sourcesData) : [],
-        songs: songsData ? JSON.parse(songsData) : [],
-        blacklist: blacklistData ? JSON.parse(blacklistData) : [],
-        wrongAnswers: wrongAnswersData ? JSON.parse(wrongAnswersData) : [],
-        settings: settingsData ? { ...DEFAULT_SETTINGS, ...JSON.parse(settingsData) } : DEFAULT_SETTINGS,
+        stats: stats || get().stats,
+        words,
+        sources,
+        songs,
+        blacklist,
+        wrongAnswers,
+        factoryDraft,
+        pendingImport,
+        settings: settings ? { ...DEFAULT_SETTINGS, ...settings } : DEFAULT_SETTINGS,
         isLoading: false,
+        storageIssues: StorageService.getIssues(),
       });
-    } catch (error) {
+
+      // 继续处理上次没有完成的导入队列
+      if (songs.some((s) => s.status === 'pending')) get().processQueue();
+    } catch (error: any) {
       console.error('Failed to load data:', error);
-      set({ isLoading: false });
+      set({
+        isLoading: false,
+        storageIssues: [...StorageService.getIssues(), { source: 'load', message: error?.message || String(error) }],
+      });
     }
   },
 
   updateStats: async (total, mastered) => {
     const newStats = { ...get().stats, totalWords: total, masteredWords: mastered };
     set({ stats: newStats });
-    await AsyncStorage.setItem(STATS_KEY, JSON.stringify(newStats));
+    await StorageService.saveStats(newStats);
   },
 
   getSourcesForWord: (wordId) => get().sources.filter((s) => s.wordId === wordId),
@@ -147,17 +378,42 @@ export const useAppStore = create<AppState>((set, get) => ({
   updateSettings: async (updates) => {
     const newSettings = { ...get().settings, ...updates };
     set({ settings: newSettings });
-    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(newSettings));
+    await StorageService.saveSettings(newSettings);
+  },
+
+  importLibrary: async (backup, mode) => {
+    const state = get();
+    if (mode === 'replace') {
+      await StorageService.importLibrary(backup, true);
+      const settings = { ...state.settings, ...backup.settings };
+      const stats = backup.stats || state.stats;
+      await StorageService.saveSettings(settings);
+      await StorageService.saveStats(stats);
+      set({
+        words: backup.words,
+        sources: backup.sources,
+        songs: backup.songs,
+        blacklist: backup.blacklist,
+        wrongAnswers: backup.wrongAnswers,
+        settings,
+        stats,
+      });
+      return;
+    }
+
+    const added = mergeLibrary(state, backup);
+    await StorageService.importLibrary(added, false);
+    set({
+      words: [...state.words, ...added.words],
+      sources: [...state.sources, ...added.sources],
+      songs: [...state.songs, ...added.songs],
+      blacklist: [...state.blacklist, ...added.blacklist],
+      wrongAnswers: [...state.wrongAnswers, ...added.wrongAnswers],
+    });
   },
 
   clearAllData: async () => {
-    await AsyncStorage.multiRemove([
-      WORDS_KEY,
-      SOURCES_KEY,
-      SONGS_KEY,
-      WRONG_ANSWERS_KEY,
-      STATS_KEY,
-    ]);
+    await StorageService.clearAll();
     set({
       words: [],
       sources: [],
@@ -7,29 +7,69 @@ export interface Word {
   level: string;
   isMastered: boolean;
   createdAt: number;
+  review?: ReviewState;
 }
 
+export interface ReviewState {
+  dueAt: number;
+  interval: number;
+  ease: number;
+  repetitions: number;
+  lapses: number;
+  lastReviewedAt: number | null;
+}
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
 export interface Source {
   id: string;
   wordId: string;
+  songId: string;
   songTitle: string;
   artist: string;
   lyricSentence: string;
   lyricSentenceEn: string;
   lyricTranslated: string;
   replaceWord: string;
+  /** 歌词行在歌曲中的位置（毫秒），来自 LRC / SRT 文件 */
+  lyricTime?: number;
+  /** 生成这条来源的提取设置，旧数据和手动导入的单词没有 */
+  provenance?: WordProvenance;
 }
 
+/** 一次提取使用的翻译风格、实际回答的服务商/模型和时间 */
+export interface WordProvenance {
+  style: AIStyle;
+  provider?: string;
+  model?: string;
+  extractedAt: number;
+}
+
+/** 歌词语言：普通话、粤语、日语、韩语、英语 */
+export type SongLanguage = 'zh' | 'yue' | 'ja' | 'ko' | 'en';
+
 export interface Song {
   id: string;
   title: string;
   artist: string;
-  language: 'en' | 'zh';
+  language: SongLanguage;
   lyrics: string;
-  status: 'pending' | 'processing' | 'completed';
+  /** 逐行对齐的英文译文，英文歌曲没有 */
+  translation?: SongTranslation;
+  /** 导入队列：pending 等待处理，failed 处理失败、可以重试 */
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  /** 最近一次处理失败的原因 */
+  error?: string;
+  /** 从 LRC / SRT 文件导入时每行的时间戳，提取和重新提取时写入来源 */
+  timedLines?: { time: number; text: string }[];
   createdAt: number;
 }
 
+export interface SongTranslation {
+  style: AIStyle;
+  lines: { original: string; translated: string }[];
+}
+
 export interface BlacklistItem {
   id: string;
   word: string;
@@ -58,63 +98,128 @@ export interface WrongAnswer {
   errorType: '4choice' | 'fill' | 'translate';
 }
 
+export interface LibraryData {
+  words: Word[];
+  sources: Source[];
+  songs: Song[];
+  blacklist: BlacklistItem[];
+  wrongAnswers: WrongAnswer[];
+}
+
+export interface LibraryBackup extends LibraryData {
+  format: 'melodylingo-backup';
+  version: number;
+  exportedAt: number;
+  /** 备份里的统计数据无效时没有，导入时保留当前统计 */
+  stats?: UserStats;
+  settings: Partial<UserSettings>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface StorageIssue {
+  source: string;
+  message: string;
+}
+
+/** AI 从歌词中提取的一个单词 */
+export interface ExtractedWord {
+  word: string;
+  meaning: string;
+  level: string;
+  example: string;
+  exampleZh: string;
+  sentence: string;
+  sentenceEn: string;
+  /** 歌词行的中文译文，只有英文歌曲才有 */
+  sentenceZh?: string;
+  replaceWord: string;
+}
+
+/** Factory 表单的草稿，输入时自动保存，重启后恢复 */
+export interface FactoryDraft {
+  title: string;
+  artist: string;
+  lyrics: string;
+  language: SongLanguage;
+  timedLines: { time: number; text: string }[];
+  updatedAt: number;
+}
+
+/** 提取完成、等待在确认页保存的结果 */
+export interface ExtractionDraft {
+  songTitle: string;
+  artist: string;
+  lyrics: string;
+  language: SongLanguage;
+  translation?: SongTranslation;
+  provenance: WordProvenance;
+  /** 从 LRC / SRT 导入时每行的时间戳，手动粘贴的歌词为空 */
+  timedLines: { time: number; text: string }[];
+  words: ExtractedWord[];
+  notes: string[];
+}
+
+/**
+ * 尚未完成的导入。extracting：提取过程中被中断；review：提取完成但还没有保存。
+ * 保存时与词库写入在同一事务中清除，所以启动时仍存在就说明上次导入没有完成
+ */
+export interface PendingImport {
+  stage: 'extracting' | 'review';
+  draft: FactoryDraft;
+  review?: ExtractionDraft;
+  startedAt: number;
+}
+
+/** 校验失败被丢弃的 AI 输出 */
+export interface RejectedItem {
+  index: number;
+  word?: string;
+  reason: string;
+}
+
 export interface ProcessResult {
-  words: Array<{
-    word: string;
-    meaning: string;
-    level: string;
-    example: string;
-    exampleZh: string;
-    sentence: string;
-    sentenceEn: string;
-    replaceWord: string;
-  }>;
-}
-
-export type ApiProvider = 'gemini' | 'nvidia' | 'opencode';
+  words: ExtractedWord[];
+}
+
+/** 服务商 id，对应 services/providers 中注册的服务商 */
+export type ApiProvider = string;
 export type AIStyle = 'lyric' | 'poetic' | 'academic' | 'casual';
 
+/** 用户自定义的 OpenAI 兼容接口（Ollama、LM Studio、llama.cpp server 等） */
+export interface CustomEndpoint {
+  id: string;
+  name: string;
+  baseURL: string;
+  model: string;
+  headers: Record<string, string>;
+}
+
+export interface ProviderModel {
+  provider: ApiProvider;
+  model: string;
+}
+
 export interface UserSettings {
   apiProvider: ApiProvider;
-  nvidiaApiKey: string;
-  geminiApiKey: string;
-  opencodeApiKey: string;
-  nvidiaModel: string;
-  geminiModel: string;
-  opencodeModel: string;
+  /** 按服务商 id 保存的 API key */
+  apiKeys: Record<string, string>;
+  /** 按服务商 id 保存的模型，未设置时使用服务商的默认模型 */
+  models: Record<string, string>;
+  customEndpoints: CustomEndpoint[];
+  /** 429、5xx、超时等可重试错误的重试次数 */
+  maxRetries: number;
+  /** 主服务商失败后按顺序尝试的服务商/模型 */
+  fallbacks: ProviderModel[];
   aiStyle: AIStyle;
 }
 
 export const DEFAULT_SETTINGS: UserSettings = {
   apiProvider: 'gemini',
-  nvidiaApiKey: '',
-  geminiApiKey: '',
-  opencodeApiKey: '',
-  nvidiaModel: 'moonshotai/kimi-k2.5',
-  geminiModel: 'gemini-2.5-flash-lite',
-  opencodeModel: 'big-pickle',
+  apiKeys: {},
+  models: {},
+  customEndpoints: [],
+  maxRetries: 2,
+  fallbacks: [],
   aiStyle: 'lyric',
 };
-
-export const GEMINI_MODELS = [
-  'gemini-2.5-flash-lite',
-  'gemini-3-flash-preview',
-  'gemini-2.5-flash',
-  'gemma-3-27b-it',
-];
-
-export const NVIDIA_MODELS = [
-  'moonshotai/kimi-k2.5',
-  'deepseek-ai/deepseek-v3.2',
-  'qwen/qwen3.5-397b-a17b',
-  'minimaxai/minimax-m2.1',
-];
-
-export const OPENCODE_MODELS = [
-  'big-pickle',
-  'glm-4.7-free',
-  'kimi-k2.5-free',
-  'minimax-m2.1-free',
-  'grok-code-fast-1',
-  'gpt-5-nano',
-];